@@ -0,0 +1,122 @@
+import { ConfigurationScope, Disposable } from 'vscode';
+import { scopeKey } from './scope';
+import { defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Statistics of a reader's cache.
+ */
+export interface VCCacheStats {
+
+    /**
+     * Number of lookups that were answered from the cache.
+     */
+    readonly hits: number;
+
+    /**
+     * Number of lookups that had to read from vscode.
+     */
+    readonly misses: number;
+
+    /**
+     * Number of cache entries that were evicted due to configuration changes.
+     */
+    readonly invalidations: number;
+
+    /**
+     * Number of entries currently in the cache.
+     */
+    readonly size: number;
+
+}
+
+/**
+ * Cache of values keyed by configuration scope.
+ *
+ * An entry is cached for each distinct perspective that configuration values are read from (see
+ * `scopeKey`), and is evicted as soon as a configuration change affects any of the watched
+ * configurations in the entry's scope. All entries are evicted when the workspace folders change,
+ * since that changes how scopes map to workspace folders.
+ *
+ * Note that the cache listens for configuration changes from the moment it is constructed. Since
+ * vscode calls event listeners in the order that they were registered, a reader that owns a cache
+ * will always have its stale entries evicted before any of its own change listeners are called.
+ *
+ * Values are yielded by reference rather than copied (see `VCReaderParams.cache`).
+ *
+ * @internal
+ */
+export class ScopeCache<V> implements Disposable {
+
+    private readonly entries = new Map<string, { scope?: ConfigurationScope, value: V }>();
+
+    private hits = 0;
+
+    private misses = 0;
+
+    private invalidations = 0;
+
+    private readonly subscriptions: Disposable[];
+
+    private disposed = false;
+
+    /**
+     * @param names Full names of the configurations whose changes invalidate the cache.
+     * @param source Where the configurations are read from.
+     */
+    public constructor(names: string[], private readonly source: VCConfigurationSource = defaultSource()) {
+        this.subscriptions = [
+            source.onDidChangeConfiguration((event) => {
+                for (const [key, { scope }] of this.entries) {
+                    if (names.some(name => event.affectsConfiguration(name, scope))) {
+                        this.entries.delete(key);
+                        this.invalidations++;
+                    }
+                }
+            }),
+            source.onDidChangeWorkspaceFolders(() => {
+                this.invalidations += this.entries.size;
+                this.entries.clear();
+            })
+        ];
+    }
+
+    public get stats(): VCCacheStats {
+        return {
+            hits:          this.hits,
+            misses:        this.misses,
+            invalidations: this.invalidations,
+            size:          this.entries.size
+        };
+    }
+
+    /**
+     * Get the cached value for `scope`, calling `compute` to get it if it is not cached.
+     *
+     * Nothing is cached for the default scope (i.e. when `scope` is `undefined`), since vscode
+     * resolves it from the active text editor, which can change without any configuration change.
+     * Nothing is cached once the cache has been disposed either, since it is no longer invalidated.
+     */
+    public get(scope: ConfigurationScope | undefined, compute: () => V): V {
+        if (scope === undefined || scope === null || this.disposed) {
+            this.misses++;
+            return compute();
+        }
+        const key    = scopeKey(scope, this.source);
+        const cached = this.entries.get(key);
+        if (cached) {
+            this.hits++;
+            return cached.value;
+        }
+        this.misses++;
+        const value = compute();
+        this.entries.set(key, { scope, value });
+        return value;
+    }
+
+    public dispose(): void {
+        this.disposed = true;
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.entries.clear();
+    }
+
+}
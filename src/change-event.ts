@@ -0,0 +1,68 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationScope, Disposable } from 'vscode';
+import { defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Event fired when the effective value of a configuration changes.
+ */
+export interface VCChangeEvent<E> {
+
+    /**
+     * The effective value before the change.
+     *
+     * This is `undefined` if there was no effective value before the change.
+     */
+    readonly previous: E | undefined;
+
+    /**
+     * The effective value after the change.
+     *
+     * This is `undefined` if there is no effective value after the change.
+     */
+    readonly current: E | undefined;
+
+}
+
+/**
+ * Watch the effective value yielded by `read` and call `listener` whenever it changes.
+ *
+ * The effective value is only reread when a configuration change event affects at least one of the
+ * configurations in `names`. The listener is not called if the reread effective value is deeply
+ * equal to the previous one.
+ *
+ * @param names Full names of the configurations that `read` depends on.
+ * @param read Callback that yields the effective value. Throwing is taken to mean that there is no
+ *             effective value.
+ * @param scope If specified, only configuration changes that affect this scope are considered, and
+ *              the effective value is read from this scope.
+ * @param source Where the configurations are read from.
+ *
+ * @internal
+ */
+export function watchEffectiveValue<E>(
+    names:    string[],
+    read:     (scope?: ConfigurationScope) => E,
+    listener: (event: VCChangeEvent<E>) => void,
+    scope?:   ConfigurationScope,
+    source:   VCConfigurationSource = defaultSource()
+): Disposable {
+    const tryRead = (): E | undefined => {
+        try {
+            return read(scope);
+        } catch {
+            return undefined;
+        }
+    };
+    let previous = tryRead();
+    return source.onDidChangeConfiguration((event) => {
+        if (!names.some(name => event.affectsConfiguration(name, scope))) {
+            return;
+        }
+        const current = tryRead();
+        if (!isDeepStrictEqual(previous, current)) {
+            const event = { previous, current };
+            previous = current;
+            listener(event);
+        }
+    });
+}
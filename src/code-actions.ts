@@ -0,0 +1,192 @@
+import { CodeAction, CodeActionContext, CodeActionProvider, Diagnostic, Disposable, Range, TextDocument, WorkspaceEdit } from 'vscode';
+import { VCDiagnostics } from './diagnostics';
+import { VCHealthIssue } from './registry';
+import { VCDualReader } from './vc-dual-reader';
+import { findSettingEntry, SettingValue } from './settings-file';
+import { vscodeModule } from './source';
+
+/**
+ * Provides quick fixes for the diagnostics published by a `VCDiagnostics`.
+ *
+ * The following fixes are offered:
+ *
+ *   - For invalid values, removing the value, so that the configuration falls back to the value in
+ *     the next scope.
+ *   - For invalid values, replacing the value with the default value that the package manifest
+ *     declares for the configuration.
+ *   - For values of deprecated configurations of the dual readers in `readers`, rewriting the entry
+ *     into an entry of the new configuration with the value converted by the reader (see
+ *     `VCDualReader.convertDeprecated`). This is only offered if the deprecated value is valid, if
+ *     its converted value is valid, and if the new configuration does not already have a value in
+ *     the same place.
+ *
+ * The provider is registered for settings files and workspace files when constructed, and is
+ * unregistered when disposed:
+ *
+ * ```
+ * const diagnostics = new VCDiagnostics({ registry });
+ * const fixes       = new VCCodeActionProvider({ diagnostics, readers: [ dualReader ] });
+ * context.subscriptions.push(diagnostics, fixes);
+ * ```
+ */
+export class VCCodeActionProvider implements CodeActionProvider, Disposable {
+
+    private readonly registration: Disposable;
+
+    public constructor(private readonly args: VCCodeActionProviderParams) {
+        this.registration = vscodeModule().languages.registerCodeActionsProvider(
+            [ { pattern: '**/settings.json' }, { pattern: '**/*.code-workspace' } ],
+            this,
+            { providedCodeActionKinds: [ vscodeModule().CodeActionKind.QuickFix ] }
+        );
+    }
+
+    public provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+        const actions: CodeAction[] = [];
+        for (const located of this.args.diagnostics.issuesAt(document.uri, range)) {
+            const source = located.issue.source;
+            const entry  = source ? findSettingEntry(document, { ...located.issue, source }) : undefined;
+            if (!source || !entry) {
+                continue;
+            }
+            const value       = { ...located.issue, source };
+            const diagnostics = context.diagnostics.filter(diagnostic =>
+                diagnostic.range.isEqual(located.range) && diagnostic.code === located.issue.name
+            );
+            if (located.issue.kind === 'invalid') {
+                actions.push(this.removeAction(document, value, entry.entry, diagnostics));
+                const replace = this.replaceWithDefaultAction(document, value, entry.value, diagnostics);
+                if (replace) {
+                    actions.push(replace);
+                }
+            } else if (located.issue.kind === 'deprecated') {
+                const rewrite = this.rewriteAction(document, located.issue, value, entry, diagnostics);
+                if (rewrite) {
+                    actions.push(rewrite);
+                }
+            }
+        }
+        return actions;
+    }
+
+    public dispose(): void {
+        this.registration.dispose();
+    }
+
+    private removeAction(document: TextDocument, value: SettingValue, entry: Range, diagnostics: Diagnostic[]): CodeAction {
+        const edit = new (vscodeModule().WorkspaceEdit)();
+        edit.delete(document.uri, removalRange(document, entry));
+        return quickFix(`Remove the invalid value of ${value.name}`, edit, diagnostics);
+    }
+
+    private replaceWithDefaultAction(
+        document:    TextDocument,
+        value:       SettingValue,
+        valueRange:  Range,
+        diagnostics: Diagnostic[]
+    ): CodeAction | undefined {
+        const scope        = value.languageId !== undefined ? { uri: value.folder?.uri, languageId: value.languageId } : value.folder?.uri;
+        const inspect      = vscodeModule().workspace.getConfiguration(undefined, scope).inspect(value.name);
+        const defaultValue = (value.source.endsWith('LanguageValue') ? inspect?.defaultLanguageValue : undefined) ?? inspect?.defaultValue;
+        if (defaultValue === undefined) {
+            return undefined;
+        }
+        const edit = new (vscodeModule().WorkspaceEdit)();
+        edit.replace(document.uri, valueRange, formatValue(document, valueRange, defaultValue));
+        return quickFix(`Replace the invalid value of ${value.name} with its default value`, edit, diagnostics);
+    }
+
+    private rewriteAction(
+        document:    TextDocument,
+        issue:       VCHealthIssue,
+        value:       SettingValue,
+        entry:       { value: Range, entry: Range },
+        diagnostics: Diagnostic[]
+    ): CodeAction | undefined {
+        const reader      = this.args.readers?.find(reader => reader.deprName === issue.name);
+        const replacement = issue.replacement;
+        if (!reader || replacement === undefined || findSettingEntry(document, { ...value, name: replacement })) {
+            return undefined;
+        }
+        let deprecated: unknown;
+        try {
+            deprecated = JSON.parse(document.getText(entry.value));
+        } catch {
+
+            // Values with comments in them cannot be parsed with `JSON.parse`.
+            return undefined;
+        }
+        const converted = reader.convertDeprecated(deprecated);
+        if (converted === undefined) {
+            return undefined;
+        }
+        const edit = new (vscodeModule().WorkspaceEdit)();
+        edit.replace(
+            document.uri,
+            entry.entry,
+            `${JSON.stringify(replacement)}: ${formatValue(document, entry.entry, converted)}`
+        );
+        return quickFix(`Rewrite ${issue.name} into ${replacement}`, edit, diagnostics);
+    }
+
+}
+
+export interface VCCodeActionProviderParams {
+
+    /**
+     * The diagnostics to provide quick fixes for.
+     */
+    readonly diagnostics: VCDiagnostics;
+
+    /**
+     * Dual readers whose deprecated values can be rewritten into values of their new configurations.
+     *
+     * Readers without a `deprConvert` callback are ignored.
+     */
+    readonly readers?: readonly Pick<VCDualReader<unknown, unknown, unknown>, 'deprName' | 'convertDeprecated'>[];
+
+}
+
+function quickFix(title: string, edit: WorkspaceEdit, diagnostics: Diagnostic[]): CodeAction {
+    const vscode       = vscodeModule();
+    const action       = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit        = edit;
+    action.diagnostics = diagnostics;
+    return action;
+}
+
+/**
+ * Get the range to delete to remove an entry from an object, including the comma that separates it
+ * from its neighbours and, if it is alone on its lines, the lines themselves.
+ */
+function removalRange(document: TextDocument, entry: Range): Range {
+    const text  = document.getText();
+    let   start = document.offsetAt(entry.start);
+    let   end   = document.offsetAt(entry.end);
+    const after = /^\s*,/.exec(text.slice(end));
+    if (after) {
+        end += after[0].length;
+    } else {
+
+        // The last entry of an object has no comma after it, so the one before it is removed instead.
+        const before = /,\s*$/.exec(text.slice(0, start));
+        if (before) {
+            start -= before[0].length;
+        }
+    }
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    const lineEnd   = /^[ \t]*\r?\n/.exec(text.slice(end));
+    if (/^\s*$/.test(text.slice(lineStart, start)) && lineEnd) {
+        start = lineStart;
+        end  += lineEnd[0].length;
+    }
+    return new (vscodeModule().Range)(document.positionAt(start), document.positionAt(end));
+}
+
+/**
+ * Format a value as JSON to be inserted at `range`, indented to match the line it is inserted on.
+ */
+function formatValue(document: TextDocument, range: Range, value: unknown): string {
+    const indent = /^\s*/.exec(document.lineAt(range.start.line).text)?.[0] ?? '';
+    return JSON.stringify(value, undefined, 4).split('\n').join(`\n${indent}`);
+}
@@ -0,0 +1,68 @@
+import { InspectKey, VCValueDetail } from './inspect';
+
+/**
+ * The scope that a configuration is declared with in the `contributes.configuration` section of a
+ * package manifest.
+ *
+ * The declared scope determines which settings vscode takes the values of a configuration from:
+ *
+ *   - `application`:          Only the user settings.
+ *   - `machine`:              Only the user (or remote) settings.
+ *   - `machine-overridable`:  The user, workspace and workspace folder settings.
+ *   - `window`:               The user and workspace settings.
+ *   - `resource`:             The user, workspace and workspace folder settings.
+ *   - `language-overridable`: The user, workspace and workspace folder settings, including their
+ *                             language specific values.
+ *
+ * Default values are always allowed.
+ */
+export type VCDeclaredScope =
+    'application'
+    | 'machine'
+    | 'machine-overridable'
+    | 'window'
+    | 'resource'
+    | 'language-overridable';
+
+/**
+ * The `inspect` scopes that vscode takes values from for each declared scope.
+ */
+const allowedKeys: { readonly [S in VCDeclaredScope]: readonly InspectKey[] } = {
+    'application':          [ 'defaultValue', 'globalValue' ],
+    'machine':              [ 'defaultValue', 'globalValue' ],
+    'machine-overridable':  [ 'defaultValue', 'globalValue', 'workspaceValue', 'workspaceFolderValue' ],
+    'window':               [ 'defaultValue', 'globalValue', 'workspaceValue' ],
+    'resource':             [ 'defaultValue', 'globalValue', 'workspaceValue', 'workspaceFolderValue' ],
+    'language-overridable': [
+        'defaultValue', 'globalValue', 'workspaceValue', 'workspaceFolderValue',
+        'defaultLanguageValue', 'globalLanguageValue', 'workspaceLanguageValue', 'workspaceFolderLanguageValue'
+    ]
+};
+
+/**
+ * Whether `value` is one of the scopes that a configuration can be declared with.
+ *
+ * @internal
+ */
+export function isDeclaredScope(value: unknown): value is VCDeclaredScope {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(allowedKeys, value);
+}
+
+/**
+ * Get the outcome for a value in a scope that `declaredScope` does not allow.
+ *
+ * @return `undefined` if the scope is allowed or the value is unset, in which case the value should
+ *         be validated as usual.
+ *
+ * @internal
+ */
+export function disallowedDetail(key: InspectKey, value: unknown, declaredScope: VCDeclaredScope): VCValueDetail<never> | undefined {
+    if (value === undefined || allowedKeys[declaredScope].includes(key)) {
+        return undefined;
+    }
+    return {
+        status: 'disallowed',
+        value,
+        reason: `Values in ${key} are ignored for configurations declared with the '${declaredScope}' scope.`
+    };
+}
@@ -0,0 +1,204 @@
+import { ConfigurationScope, ConfigurationTarget, Memento } from 'vscode';
+import { InspectKey } from './inspect';
+import { vscodeModule } from './source';
+
+/**
+ * Event describing a value of a deprecated configuration that was encountered while reading.
+ */
+export interface VCDeprecationEvent {
+
+    /**
+     * Full name of the new configuration.
+     */
+    readonly name: string;
+
+    /**
+     * Full name of the deprecated configuration.
+     */
+    readonly deprName: string;
+
+    /**
+     * The scope that the configurations were read from.
+     */
+    readonly scope: ConfigurationScope | undefined;
+
+    /**
+     * The `inspect` scope that the deprecated value is in.
+     */
+    readonly source: InspectKey;
+
+    /**
+     * The settings that the deprecated value is in, or `undefined` if the deprecated value is a
+     * default value.
+     */
+    readonly target: ConfigurationTarget | undefined;
+
+    /**
+     * The deprecated value, before validation.
+     */
+    readonly value: unknown;
+
+}
+
+/**
+ * Helper that notifies the user that they are using a deprecated configuration and offers to migrate
+ * their values to the new configuration.
+ *
+ * The notification has a `Migrate` button which calls the `migrate` callback, and a `Don't Show
+ * Again` button which permanently silences the notification for the deprecated configuration.
+ *
+ * Notifications are rate-limited. The notification for a deprecated configuration is shown at most
+ * once per session, and after being shown, is not shown again until `interval` has elapsed, even
+ * across sessions. Both the time the notification was last shown and whether the user asked for it
+ * to not be shown again are kept in the `memento` specified in the constructor.
+ *
+ * The `notify` method can be called from the `onDeprecatedValueUsed` or `onDeprecatedValuePresent`
+ * hook of a `VCDualReader`. It never rejects, so its promise can safely be discarded:
+ *
+ * ```
+ * const notifier = new VCDeprecationNotifier({
+ *     memento: context.globalState,
+ *     migrate: () => reader.migrate({ dryRun: false, clearDeprecated: true })
+ * });
+ * const reader = new VCDualReader({ ..., onDeprecatedValueUsed: (event) => void notifier.notify(event) });
+ * ```
+ */
+export class VCDeprecationNotifier {
+
+    /**
+     * Deprecated configurations that a notification has been shown for during this session.
+     */
+    private readonly shown = new Set<string>();
+
+    public constructor(private readonly args: VCDeprecationNotifierParams) {}
+
+    /**
+     * Show a notification for the deprecated configuration in `event`, unless one was shown recently
+     * or the user asked for it to not be shown again.
+     *
+     * @return A promise that resolves once the notification has been dismissed and the chosen action
+     *         (if any) has completed. The promise never rejects. Errors thrown by the `migrate`
+     *         callback or by the memento are passed to the `onError` callback instead.
+     */
+    public async notify(event: VCDeprecationEvent): Promise<void> {
+        try {
+            await this.notifyUnchecked(event);
+        } catch (error) {
+            try {
+                (this.args.onError ?? (error => showError(event, error)))(error);
+            } catch {
+
+                // There is nowhere left to report the error to.
+            }
+        }
+    }
+
+    /**
+     * Allow the notification for a deprecated configuration to be shown again.
+     *
+     * This undoes both `Don't Show Again` and the rate-limiting.
+     */
+    public async reset(deprName: string): Promise<void> {
+        this.shown.delete(deprName);
+        await this.args.memento.update(`${stateKeyPrefix}${deprName}`, undefined);
+    }
+
+    private async notifyUnchecked(event: VCDeprecationEvent): Promise<void> {
+        const key   = `${stateKeyPrefix}${event.deprName}`;
+        const state = this.args.memento.get<NotifierState>(key, { silenced: false, lastShown: 0 });
+        const now   = Date.now();
+        if (this.shown.has(event.deprName)
+            || state.silenced
+            || now - state.lastShown < (this.args.interval ?? defaultInterval)
+        ) {
+            return;
+        }
+        this.shown.add(event.deprName);
+        await this.args.memento.update(key, { ...state, lastShown: now });
+        const message = this.args.message?.(event)
+            ?? `The configuration ${event.deprName} is deprecated. Please use ${event.name} instead.`;
+        const show    = this.args.showMessage 
+            ?? ((message, ...actions) => vscodeModule().window.showInformationMessage(message, ...actions));
+        const choice  = await show(message, migrateAction, silenceAction);
+        if (choice === migrateAction) {
+            await this.args.migrate();
+        } else if (choice === silenceAction) {
+            await this.args.memento.update(key, { silenced: true, lastShown: now });
+        }
+    }
+
+}
+
+export interface VCDeprecationNotifierParams {
+
+    /**
+     * Storage in which the notification state is kept.
+     *
+     * This is usually `ExtensionContext.globalState`, so that `Don't Show Again` applies everywhere.
+     */
+    readonly memento: Memento;
+
+    /**
+     * Callback called when the user clicks on the `Migrate` button.
+     *
+     * This usually calls `VCDualReader.migrate` with `dryRun: false`.
+     */
+    readonly migrate: () => Thenable<unknown>;
+
+    /**
+     * Minimum number of milliseconds between notifications for the same deprecated configuration.
+     *
+     * Defaults to a day.
+     */
+    readonly interval?: number;
+
+    /**
+     * Callback used to build the message of the notification.
+     *
+     * Defaults to a message asking the user to use the new configuration instead.
+     */
+    readonly message?: (event: VCDeprecationEvent) => string;
+
+    /**
+     * Callback used to show the notification, which resolves to the action that the user chose.
+     *
+     * Defaults to `window.showInformationMessage`.
+     */
+    readonly showMessage?: (message: string, ...actions: string[]) => Thenable<string | undefined>;
+
+    /**
+     * Callback called with any error thrown while notifying, such as by the `migrate` callback.
+     *
+     * Defaults to showing the error in an error message.
+     */
+    readonly onError?: (error: unknown) => void;
+
+}
+
+/**
+ * Notification state of a deprecated configuration, as kept in the memento.
+ */
+interface NotifierState {
+
+    /**
+     * Whether the user asked for the notification to not be shown again.
+     */
+    readonly silenced: boolean;
+
+    /**
+     * Time (in milliseconds since the epoch) that the notification was last shown.
+     */
+    readonly lastShown: number;
+
+}
+
+function showError(event: VCDeprecationEvent, error: unknown): void {
+    const reason = error instanceof Error ? error.message : String(error);
+    const message = `Error while handling the deprecated configuration ${event.deprName}: ${reason}`;
+    void vscodeModule().window.showErrorMessage(message);
+}
+
+const stateKeyPrefix  = 'vscode-validated-configuration-reader.deprecationNotifier.';
+const defaultInterval = 24 * 60 * 60 * 1000;
+const migrateAction   = 'Migrate';
+const silenceAction   = `Don't Show Again`;
@@ -0,0 +1,201 @@
+import { Diagnostic, DiagnosticCollection, Disposable, Range, Uri } from 'vscode';
+import { VCHealthIssue, VCReaderRegistry } from './registry';
+import { findSetting, settingsFileUri } from './settings-file';
+import { vscodeModule } from './source';
+
+/**
+ * Publishes the invalid values of the configurations of registered readers as diagnostics on the
+ * settings files that they are in.
+ *
+ * The values are found in the same way as `VCReaderRegistry.checkHealth`. Each invalid value is
+ * reported at its location in the user settings, workspace settings (or workspace file, in a
+ * multi-root workspace) or workspace folder settings, within the block for its language if it is a
+ * language specific value. Where a validator reports which part of a value is invalid, only that
+ * part is marked. Values of deprecated configurations are reported as warnings.
+ *
+ * The diagnostics are refreshed whenever a configuration change affects a registered configuration
+ * and whenever the workspace folders change. For instance:
+ *
+ * ```
+ * const diagnostics = new VCDiagnostics({
+ *     registry,
+ *     userSettings: Uri.joinPath(context.globalStorageUri, '..', '..', 'settings.json')
+ * });
+ * context.subscriptions.push(diagnostics);
+ * ```
+ */
+export class VCDiagnostics implements Disposable {
+
+    private readonly collection: DiagnosticCollection;
+
+    private readonly subscriptions: Disposable[];
+
+    /**
+     * The issues that the published diagnostics are for, keyed by the settings file they are in.
+     */
+    private published = new Map<string, { issue: VCHealthIssue, range: Range }[]>();
+
+    /**
+     * Number of refreshes started, used to drop the outcomes of refreshes that have been superseded.
+     */
+    private refreshes = 0;
+
+    private get name(): string {
+        return this.args.name ?? 'configuration';
+    }
+
+    /**
+     * Start publishing diagnostics for the configurations of the readers in `registry`.
+     */
+    public constructor(private readonly args: VCDiagnosticsParams) {
+        this.collection    = vscodeModule().languages.createDiagnosticCollection(this.name);
+        this.subscriptions = [
+            vscodeModule().workspace.onDidChangeConfiguration((event) => {
+                const affected = args.registry.readers.some(reader =>
+                    event.affectsConfiguration(reader.name)
+                    || (reader.deprName !== undefined && event.affectsConfiguration(reader.deprName))
+                );
+                if (affected) {
+                    this.refreshInBackground();
+                }
+            }),
+            vscodeModule().workspace.onDidChangeWorkspaceFolders(() => this.refreshInBackground())
+        ];
+        this.refreshInBackground();
+    }
+
+    /**
+     * Recompute the diagnostics.
+     *
+     * This is done automatically when constructed and on configuration changes (see `onError` for
+     * how errors are handled then), but should be called after registering or disposing readers.
+     *
+     * @return A promise that resolves once the diagnostics have been published.
+     *
+     * @throws Any error thrown by the `transform` callback of a registered reader.
+     */
+    public async refresh(): Promise<void> {
+        const refresh = ++this.refreshes;
+        const issues  = this.args.registry.checkHealth(this.args.languageIds)
+            .filter(issue => issue.kind === 'invalid' || issue.kind === 'deprecated');
+        const byFile  = new Map<string, { uri: Uri, issues: VCHealthIssue[] }>();
+        for (const issue of issues) {
+            const uri = issue.source && settingsFileUri(issue.source, issue.folder, this.args.userSettings);
+            if (uri) {
+                const entry = byFile.get(uri.toString()) ?? { uri, issues: [] };
+                entry.issues.push(issue);
+                byFile.set(uri.toString(), entry);
+            }
+        }
+        const published = new Map<string, { issue: VCHealthIssue, range: Range }[]>();
+        for (const { uri, issues } of byFile.values()) {
+            const document = await vscodeModule().workspace.openTextDocument(uri).then(document => document, () => undefined);
+            const located: { issue: VCHealthIssue, range: Range }[] = [];
+            for (const issue of issues) {
+                const source = issue.source;
+                const range  = document && source ? findSetting(document, { ...issue, source }) : undefined;
+                if (range) {
+                    located.push({ issue, range });
+                }
+            }
+            published.set(uri.toString(), located);
+        }
+        if (refresh === this.refreshes) {
+            this.published = published;
+            this.collection.clear();
+            this.collection.set([ ...byFile.values() ].map(({ uri }) => [ 
+                uri, 
+                (published.get(uri.toString()) ?? []).map(({ issue, range }) => toDiagnostic(issue, range, this.name))
+            ]));
+        }
+    }
+
+    /**
+     * Get the diagnostics that are currently published for a settings file.
+     */
+    public get(uri: Uri): readonly Diagnostic[] {
+        return this.collection.get(uri) ?? [];
+    }
+
+    /**
+     * Get the issues whose diagnostics are published within `range` of a settings file.
+     *
+     * @internal
+     */
+    public issuesAt(uri: Uri, range: Range): { issue: VCHealthIssue, range: Range }[] {
+        return (this.published.get(uri.toString()) ?? []).filter(located => located.range.intersection(range));
+    }
+
+    /**
+     * Refresh without waiting for the outcome.
+     *
+     * If refreshing fails, the previously published diagnostics are kept, and the error is passed to
+     * the `onError` callback.
+     */
+    private refreshInBackground(): void {
+        this.refresh().catch(error => this.args.onError?.(error));
+    }
+
+    /**
+     * Stop publishing diagnostics and remove the ones that were published.
+     */
+    public dispose(): void {
+
+        // Drop the outcomes of refreshes in progress, since the collection is gone by then.
+        this.refreshes++;
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.collection.dispose();
+    }
+
+}
+
+export interface VCDiagnosticsParams {
+
+    /**
+     * Registry of the readers whose configurations to publish diagnostics for.
+     */
+    readonly registry: VCReaderRegistry;
+
+    /**
+     * The user settings file, where global values are.
+     *
+     * vscode does not expose the location of this file, but it can be derived from the global
+     * storage location of an extension, as `Uri.joinPath(context.globalStorageUri, '..', '..',
+     * 'settings.json')`. Diagnostics are not published for global values if this is not specified.
+     */
+    readonly userSettings?: Uri;
+
+    /**
+     * The languages whose language specific values to check. See `VCReaderRegistry.checkHealth`.
+     */
+    readonly languageIds?: readonly string[];
+
+    /**
+     * Name of the diagnostic collection, which is also shown as the source of the diagnostics.
+     *
+     * Defaults to `configuration`.
+     */
+    readonly name?: string;
+
+    /**
+     * Callback called with any error thrown by an automatic refresh, such as by the `transform`
+     * callback of a registered reader. The previously published diagnostics are kept when that
+     * happens.
+     *
+     * Errors thrown by explicit calls to `refresh` reject the promise it returns instead.
+     */
+    readonly onError?: (error: unknown) => void;
+
+}
+
+function toDiagnostic(issue: VCHealthIssue, range: Range, source: string): Diagnostic {
+    const vscode       = vscodeModule();
+    const severity     = issue.kind === 'deprecated' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
+    const diagnostic   = new vscode.Diagnostic(range, issue.message, severity);
+    diagnostic.source  = source;
+    diagnostic.code    = issue.name;
+    if (issue.kind === 'deprecated') {
+        diagnostic.tags = [ vscode.DiagnosticTag.Deprecated ];
+    }
+    return diagnostic;
+}
@@ -0,0 +1,307 @@
+import { ConfigurationScope } from 'vscode';
+import { InspectDetailed, InspectKey } from './inspect';
+
+/**
+ * The values of a configuration at the time an error occurred.
+ */
+export interface VCInspectSnapshot {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly configurationName: string;
+
+    /**
+     * The outcomes of validating the values of the configuration in each scope.
+     */
+    readonly inspect: InspectDetailed<unknown>;
+
+}
+
+/**
+ * Base class of the errors thrown by the readers in this package.
+ */
+export class VCReaderError extends Error {
+
+    public constructor(
+
+        /**
+         * Full name of the configuration that the error concerns.
+         */
+        public readonly configurationName: string,
+
+        message: string
+
+    ) {
+        super(message);
+        this.name = 'VCReaderError';
+    }
+
+}
+
+/**
+ * Error thrown when a reader is constructed with an empty configuration name.
+ */
+export class ConfigurationNameEmptyError extends VCReaderError {
+
+    public constructor(configurationName: string) {
+        super(configurationName, `Name cannot be empty!`);
+        this.name = 'ConfigurationNameEmptyError';
+    }
+
+}
+
+/**
+ * Error thrown when vscode unexpectedly yields `undefined` when inspecting a configuration.
+ */
+export class InspectUndefinedError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The scope that the configuration was inspected from.
+         */
+        public readonly scope: ConfigurationScope | undefined
+
+    ) {
+        super(configurationName, `Unexpected error: Inspecting ${configurationName} yields 'undefined'.`);
+        this.name = 'InspectUndefinedError';
+    }
+
+}
+
+/**
+ * Error thrown when none of the scopes of a configuration has a valid value.
+ */
+export class NoEffectiveValueError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The scope that the configuration was read from.
+         */
+        public readonly scope: ConfigurationScope | undefined,
+
+        /**
+         * The values of each configuration that was read, in order of descending priority. For
+         * readers that read from more than one configuration (such as `VCDualReader`), there is one
+         * snapshot for each configuration.
+         */
+        public readonly snapshots: readonly VCInspectSnapshot[]
+
+    ) {
+        super(
+            configurationName,
+            snapshots.length > 1
+                ? `No effective value between ${snapshots.map(s => s.configurationName).join(' and ')}.`
+                : `No effective value for ${configurationName}.`
+        );
+        this.name = 'NoEffectiveValueError';
+    }
+
+}
+
+/**
+ * Error thrown when a configuration value fails validation and the resolution policy does not
+ * allow falling back to another value.
+ */
+export class InvalidValueError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The scope that the configuration was read from.
+         */
+        public readonly scope: ConfigurationScope | undefined,
+
+        /**
+         * The `inspect` scope that the invalid value is in.
+         */
+        public readonly source: InspectKey,
+
+        /**
+         * The invalid value.
+         */
+        public readonly value: unknown,
+
+        /**
+         * Explanation of why the value is invalid.
+         */
+        public readonly reason: string,
+
+        /**
+         * JSON path to the offending part of the value.
+         */
+        public readonly path: string,
+
+        /**
+         * The values of the configuration that has the invalid value.
+         */
+        public readonly snapshot: VCInspectSnapshot
+
+    ) {
+        super(configurationName, `Invalid value in ${source} of ${configurationName} at ${path}: ${reason}`);
+        this.name = 'InvalidValueError';
+    }
+
+}
+
+/**
+ * Error thrown when a package manifest does not contribute a configuration.
+ */
+export class ConfigurationNotInManifestError extends VCReaderError {
+
+    public constructor(configurationName: string) {
+        super(configurationName, `The package manifest does not contribute a configuration named ${configurationName}.`);
+        this.name = 'ConfigurationNotInManifestError';
+    }
+
+}
+
+/**
+ * Error thrown when the JSON schema of a configuration uses keywords or keyword values that are not
+ * supported.
+ */
+export class UnsupportedSchemaError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * Description of each unsupported keyword and where it is in the schema, along with why it
+         * is unsupported if it is a supported keyword with an unsupported value.
+         */
+        public readonly unsupported: readonly string[],
+
+        /**
+         * Description of the schema.
+         */
+        description: string
+
+    ) {
+        super(configurationName, `Unsupported JSON schema keywords in ${description}: ${unsupported.join(', ')}.`);
+        this.name = 'UnsupportedSchemaError';
+    }
+
+}
+
+/**
+ * Error thrown when a rule of a `VCBundleReader` cannot be applied.
+ */
+export class InvalidRuleError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The `message` of the rule.
+         */
+        public readonly rule: string,
+
+        /**
+         * Explanation of why the rule cannot be applied.
+         */
+        public readonly reason: string
+
+    ) {
+        super(configurationName, `Invalid rule '${rule}' of ${configurationName}: ${reason}`);
+        this.name = 'InvalidRuleError';
+    }
+
+}
+
+/**
+ * Error thrown when a value that is about to be written to a configuration fails validation.
+ */
+export class InvalidUpdateError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The value that failed validation.
+         */
+        public readonly value: unknown,
+
+        /**
+         * Explanation of why the value is invalid.
+         */
+        public readonly reason: string,
+
+        /**
+         * JSON path to the offending part of the value.
+         */
+        public readonly path: string
+
+    ) {
+        super(configurationName, `Refusing to write an invalid value to ${configurationName} (at ${path}): ${reason}`);
+        this.name = 'InvalidUpdateError';
+    }
+
+}
+
+/**
+ * Error thrown when a value written to a configuration does not become observable in time.
+ */
+export class UpdateNotObservedError extends VCReaderError {
+
+    public constructor(
+
+        configurationName: string,
+
+        /**
+         * The scope that the value was written from.
+         */
+        public readonly scope: ConfigurationScope | undefined,
+
+        /**
+         * The `inspect` scope that the value was written to.
+         */
+        public readonly target: InspectKey,
+
+        /**
+         * The value that was written.
+         */
+        public readonly value: unknown
+
+    ) {
+        super(configurationName, `Timed out waiting for the value written to ${target} of ${configurationName} to be observable.`);
+        this.name = 'UpdateNotObservedError';
+    }
+
+}
+
+/**
+ * Error thrown when writing an effective value to a configuration whose reader was not given an 
+ * `inverseTransform` callback.
+ */
+export class InverseTransformMissingError extends VCReaderError {
+
+    public constructor(configurationName: string) {
+        super(configurationName, `Cannot write an effective value to ${configurationName} without an 'inverseTransform' callback.`);
+        this.name = 'InverseTransformMissingError';
+    }
+
+}
+
+/**
+ * Error thrown when a `VCDualReader` is asked to merge or migrate values without a `deprConvert` 
+ * callback to convert the values of the deprecated configuration.
+ */
+export class DeprConvertMissingError extends VCReaderError {
+
+    public constructor(configurationName: string) {
+        super(configurationName, `Cannot convert the values of ${configurationName} without a 'deprConvert' callback.`);
+        this.name = 'DeprConvertMissingError';
+    }
+
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigurationChangeEvent, ConfigurationScope, Disposable, Uri, WorkspaceFolder, WorkspaceFoldersChangeEvent } from 'vscode';
+import { isJsonObject, parseJsonc } from './jsonc';
+import { MemoryValue, settingsValues, VCMemoryConfiguration } from './memory-configuration';
+import { VCConfigurationSection, VCConfigurationSource } from './source';
+
+/**
+ * Configuration source that reads settings files on disk, for tools that run outside of vscode,
+ * such as command line tools.
+ *
+ * The settings files are layered the same way as in vscode:
+ *
+ *   - Default values come from `defaults`.
+ *   - Global values come from the user settings file.
+ *   - Workspace values come from the `settings` property of the workspace file in a multi-root
+ *     workspace, or from the `.vscode/settings.json` file of the workspace folder otherwise.
+ *   - Workspace folder values come from the `.vscode/settings.json` file of each workspace folder.
+ *
+ * Language specific values are read from the `[languageId]` blocks of each file. For instance:
+ *
+ * ```
+ * const configuration = new VCFileConfiguration({
+ *     userSettings:     URI.file(path.join(os.homedir(), '.config', 'Code', 'User', 'settings.json')),
+ *     workspaceFolders: [ { uri: URI.file(process.cwd()), name: 'project', index: 0 } ]
+ * });
+ * const reader = new VCReader({ name: 'leaper.detectedPairs', validate, transform, source: configuration });
+ * ```
+ *
+ * The files are read synchronously when constructed, and again whenever `reload` is called. Files
+ * that do not exist have no values. The files cannot be written to, so writing values through this
+ * source (such as with `VCReader.update`) fails.
+ */
+export class VCFileConfiguration implements VCConfigurationSource {
+
+    private readonly memory: VCMemoryConfiguration;
+
+    /**
+     * @throws `SyntaxError` if any of the settings files cannot be parsed.
+     */
+    public constructor(private readonly args: VCFileConfigurationParams) {
+        this.memory = new VCMemoryConfiguration(args);
+        this.reload();
+    }
+
+    public get workspaceFolders(): readonly WorkspaceFolder[] | undefined {
+        return this.memory.workspaceFolders;
+    }
+
+    public get workspaceFile(): Uri | undefined {
+        return this.memory.workspaceFile;
+    }
+
+    /**
+     * Read the settings files again, then fire a configuration change event if any value changed.
+     *
+     * @throws `SyntaxError` if any of the settings files cannot be parsed, in which case the values
+     *         are left as they were.
+     */
+    public reload(): void {
+        const values: MemoryValue[] = [ ...settingsValues(this.args.defaults, 'default') ];
+        if (this.args.userSettings) {
+            values.push(...settingsValues(readSettingsFile(this.args.userSettings.fsPath), 'global'));
+        }
+        const folders = this.args.workspaceFolders ?? [];
+        if (this.args.workspaceFile) {
+            const workspaceFile = readSettingsFile(this.args.workspaceFile.fsPath);
+            values.push(...settingsValues(isJsonObject(workspaceFile) ? workspaceFile.settings : undefined, 'workspace'));
+        } else if (folders.length > 0) {
+            values.push(...settingsValues(readSettingsFile(folderSettingsPath(folders[0])), 'workspace'));
+        }
+        for (const folder of folders) {
+            values.push(...settingsValues(readSettingsFile(folderSettingsPath(folder)), 'workspaceFolder', folder));
+        }
+        this.memory.replaceValues(values);
+    }
+
+    public getConfiguration(section?: string, scope?: ConfigurationScope | null): VCConfigurationSection {
+        const configuration = this.memory.getConfiguration(section, scope);
+        return {
+            inspect: child => configuration.inspect(child),
+            update:  ()    => Promise.reject(new Error('Settings files cannot be written to through a VCFileConfiguration.'))
+        };
+    }
+
+    public getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        return this.memory.getWorkspaceFolder(uri);
+    }
+
+    public onDidChangeConfiguration(listener: (event: ConfigurationChangeEvent) => unknown): Disposable {
+        return this.memory.onDidChangeConfiguration(listener);
+    }
+
+    public onDidChangeWorkspaceFolders(listener: (event: WorkspaceFoldersChangeEvent) => unknown): Disposable {
+        return this.memory.onDidChangeWorkspaceFolders(listener);
+    }
+
+}
+
+export interface VCFileConfigurationParams {
+
+    /**
+     * Default values, in the same format as a settings file.
+     *
+     * These are usually the `default`s declared in the package manifest, and the language specific
+     * defaults declared in its `configurationDefaults`.
+     */
+    readonly defaults?: { readonly [name: string]: unknown };
+
+    /**
+     * The user settings file. Defaults to there being no global values.
+     */
+    readonly userSettings?: Uri;
+
+    /**
+     * The workspace folders that are open. Defaults to no workspace being open.
+     */
+    readonly workspaceFolders?: readonly WorkspaceFolder[];
+
+    /**
+     * The workspace file of a multi-root workspace. Defaults to the workspace not being a multi-root
+     * one.
+     */
+    readonly workspaceFile?: Uri;
+
+}
+
+/**
+ * Read and parse a settings file.
+ *
+ * @return `undefined` if the file does not exist or is empty.
+ *
+ * @throws `SyntaxError` if the file cannot be parsed.
+ */
+function readSettingsFile(file: string): unknown {
+    let text: string;
+    try {
+        text = fs.readFileSync(file, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return undefined;
+        }
+        throw error;
+    }
+    if (text.trim() === '') {
+        return undefined;
+    }
+    try {
+        return parseJsonc(text);
+    } catch (error) {
+        throw error instanceof SyntaxError ? new SyntaxError(`${file}: ${error.message}`) : error;
+    }
+}
+
+function folderSettingsPath(folder: WorkspaceFolder): string {
+    return path.join(folder.uri.fsPath, '.vscode', 'settings.json');
+}
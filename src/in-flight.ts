@@ -0,0 +1,159 @@
+import { CancellationToken, Disposable } from 'vscode';
+import { vscodeModule } from './source';
+
+/**
+ * Asynchronous computations that are in progress, keyed so that concurrent callers asking for the
+ * same thing share a single computation.
+ *
+ * Each caller can cancel its own wait with its own cancellation token, without affecting the other
+ * callers. The shared computation itself is only cancelled once every caller waiting on it has
+ * cancelled.
+ *
+ * @internal
+ */
+export class InFlight<V> implements Disposable {
+
+    private readonly pending = new Map<string, PendingComputation<V>>();
+
+    /**
+     * Join the computation in progress for `key`, or start one with `compute` if there is none.
+     *
+     * @param compute Callback that starts the computation. It is given a token that is cancelled
+     *                when every caller waiting on the computation has cancelled.
+     * @param token Token for cancelling this caller's wait.
+     *
+     * @return A promise that settles with the outcome of the computation, or rejects with a
+     *         `CancellationError` once `token` is cancelled.
+     */
+    public run(key: string, compute: (token: CancellationToken) => Promise<V>, token?: CancellationToken): Promise<V> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(cancellationError());
+        }
+        let computation = this.pending.get(key);
+        if (!computation) {
+            const source  = new TokenSource();
+            const started = { source, waiters: 0, promise: compute(source.token) };
+            const settle  = () => {
+                this.forget(key, started);
+                source.dispose();
+            };
+            started.promise.then(settle, settle);
+            computation = started;
+            this.pending.set(key, computation);
+        }
+        const joined = computation;
+        joined.waiters++;
+        if (!token) {
+            return joined.promise;
+        }
+        return new Promise((resolve, reject) => {
+            const subscription = token.onCancellationRequested(() => {
+                subscription.dispose();
+                if (--joined.waiters === 0) {
+                    joined.source.cancel();
+                    this.forget(key, joined);
+                }
+                reject(cancellationError());
+            });
+            joined.promise.then(
+                (value)  => { subscription.dispose(); resolve(value); },
+                (reason) => { subscription.dispose(); reject(reason); }
+            );
+        });
+    }
+
+    /**
+     * Stop sharing the computations in progress, so that later callers start new ones.
+     *
+     * Callers that are already waiting are unaffected.
+     */
+    public clear(): void {
+        this.pending.clear();
+    }
+
+    public dispose(): void {
+        this.clear();
+    }
+
+    private forget(key: string, computation: PendingComputation<V>): void {
+        if (this.pending.get(key) === computation) {
+            this.pending.delete(key);
+        }
+    }
+
+}
+
+interface PendingComputation<V> {
+
+    readonly source: TokenSource;
+
+    readonly promise: Promise<V>;
+
+    /**
+     * Number of callers that are waiting on the computation and have not cancelled.
+     */
+    waiters: number;
+
+}
+
+/**
+ * Source of a cancellation token.
+ *
+ * This does the same as vscode's `CancellationTokenSource`, which is not available outside of vscode.
+ */
+class TokenSource implements Disposable {
+
+    private readonly listeners = new Set<(e: void) => unknown>();
+
+    private cancelled = false;
+
+    public readonly token: CancellationToken;
+
+    public constructor() {
+        const source = this;
+        this.token   = {
+            get isCancellationRequested() {
+                return source.cancelled;
+            },
+            onCancellationRequested: (listener, thisArgs?, disposables?) => {
+                const bound = (e: void) => listener.call(thisArgs, e);
+                this.listeners.add(bound);
+                const subscription = { dispose: () => this.listeners.delete(bound) };
+                disposables?.push(subscription);
+                return subscription;
+            }
+        };
+    }
+
+    public cancel(): void {
+        if (!this.cancelled) {
+            this.cancelled = true;
+            [ ...this.listeners ].forEach(listener => listener());
+        }
+    }
+
+    public dispose(): void {
+        this.listeners.clear();
+    }
+
+}
+
+/**
+ * Create the error that operations reject with when cancelled.
+ *
+ * This is vscode's `CancellationError` inside of vscode. Outside of vscode, it is an `Error` with the
+ * same name and message instead.
+ *
+ * @internal
+ */
+export function cancellationError(): Error {
+    let vscode: typeof import('vscode');
+    try {
+        vscode = vscodeModule();
+    } catch {
+        const error = new Error('Canceled');
+        error.name  = 'Canceled';
+        return error;
+    }
+    return new vscode.CancellationError();
+}
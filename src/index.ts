@@ -1,4 +1,40 @@
 // Stuff exposed to users of this package.
 
-export { VCReader } from './vc-reader';
-export { VCDualReader } from './vc-dual-reader';
\ No newline at end of file
+export { VCReader, VCReaderParams, VCReadResult } from './vc-reader';
+export { VCDualReader, VCDualReaderParams, VCDualReadResult } from './vc-dual-reader';
+export { VCChainReader, VCChainReaderParams, VCChainReadResult, VCGeneration } from './vc-chain-reader';
+export { VCAsyncReader, VCAsyncReaderParams } from './vc-async-reader';
+export { 
+    VCBundleReader, VCBundleReaderParams, VCBundleEntry, VCBundleSpec, VCBundleTypes, VCBundleValues, VCBundleChangeEvent 
+} from './vc-bundle-reader';
+export { VCBundleRule, VCRuleViolation } from './rules';
+export { VCChangeEvent } from './change-event';
+export { VCCacheStats } from './cache';
+export { Inspect, InspectDetailed, InspectKey, inspectKeysByPriority, VCValueDetail } from './inspect';
+export { Validator, ValidationFailure, withExplanation, childPath, check } from './validation';
+export { 
+    ValidatedType, OptionalValidator, Shape, ShapeType, isString, isNumber, isBoolean, isOneOf, 
+    isArrayOf, isTuple, isRecordOf, isObject, optional, anyOf, refine, unique 
+} from './validators';
+export { 
+    JsonSchema, SchemaReaderParams, findConfigurationSchema, findDeclaredScope, schemaValidator, createSchemaReader 
+} from './schema';
+export { VCDeclaredScope } from './declared-scope';
+export { VCScopeTarget, toConfigurationScope } from './scope';
+export { VCInspectMatrix, VCInspectMatrixCell } from './matrix';
+export { VCReaderRegistry, VCReaderRegistryParams, VCRegisteredReader, VCHealthIssue } from './registry';
+export { VCDiagnostics, VCDiagnosticsParams } from './diagnostics';
+export { VCCodeActionProvider, VCCodeActionProviderParams } from './code-actions';
+export { VCConfigurationSource, VCConfigurationSection, VCInspectResult } from './source';
+export { VCMemoryConfiguration, VCMemoryConfigurationParams } from './memory-configuration';
+export { VCFileConfiguration, VCFileConfigurationParams } from './file-configuration';
+export { VCLspConfiguration, VCLspConfigurationParams, VCLspConfigurationItem } from './lsp-configuration';
+export { ResolutionPolicy, VCValueSource } from './resolution';
+export { MergeStrategy, ElementType } from './merge';
+export { 
+    VCInspectSnapshot, VCReaderError, ConfigurationNameEmptyError, InspectUndefinedError, NoEffectiveValueError, 
+    InvalidValueError, ConfigurationNotInManifestError, UnsupportedSchemaError, InvalidRuleError, InvalidUpdateError,
+    UpdateNotObservedError, InverseTransformMissingError, DeprConvertMissingError
+} from './errors';
+export { VCMigrationOptions, VCMigrationReport, VCMigrationEntry } from './migration';
+export { VCDeprecationEvent, VCDeprecationNotifier, VCDeprecationNotifierParams } from './deprecation';
\ No newline at end of file
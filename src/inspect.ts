@@ -1,3 +1,5 @@
+import { ValidationFailure } from './validation';
+
 /**
  * The validated values of a configuration.
  */
@@ -43,4 +45,71 @@ export interface Inspect<T> {
      */
     workspaceFolderLanguageValue: T | undefined;
 
-}
\ No newline at end of file
+}
+
+/**
+ * Name of one of the scopes of `Inspect`.
+ */
+export type InspectKey = keyof Inspect<unknown>;
+
+/**
+ * The scopes of `Inspect`, ordered from the highest priority to the lowest.
+ * 
+ * The effective value of a configuration is the value in the first scope of this list that has a 
+ * value.
+ */
+export const inspectKeysByPriority: readonly InspectKey[] = [
+    'workspaceFolderLanguageValue',
+    'workspaceLanguageValue',
+    'globalLanguageValue',
+    'defaultLanguageValue',
+    'workspaceFolderValue',
+    'workspaceValue',
+    'globalValue',
+    'defaultValue'
+];
+
+/**
+ * The outcome of validating the value of a configuration in a single scope.
+ *
+ *   - `unset`:   No value was defined in the scope.
+ *   - `valid`:   The value in the scope passed validation. If the reader validates element-wise 
+ *                (see `VCReaderParams.elementwise`), `value` is what remains after dropping invalid 
+ *                elements, and `rejected` explains why each dropped element is invalid. `rejected` is
+ *                omitted if no element was dropped.
+ *   - `invalid`: The value in the scope failed validation. `reason` explains why, and `path` is a 
+ *                JSON path to the offending part of the value (`$` for the whole value).
+ *   - `disallowed`: The scope is not one that the configuration's declared scope allows values to 
+ *                   be taken from (see `VCReaderParams.declaredScope`), so the value is ignored 
+ *                   without being validated. `reason` explains why.
+ */
+export type VCValueDetail<T> = 
+    { readonly status: 'unset' } 
+    | { readonly status: 'valid',      readonly value: T, readonly rejected?: readonly ValidationFailure[] } 
+    | { readonly status: 'invalid',    readonly value: unknown, readonly reason: string, readonly path: string }
+    | { readonly status: 'disallowed', readonly value: unknown, readonly reason: string };
+
+/**
+ * The outcomes of validating the values of a configuration in each of the scopes of `Inspect`.
+ */
+export type InspectDetailed<T> = { readonly [K in keyof Inspect<T>]: VCValueDetail<T> };
+
+/**
+ * Get the validated values from detailed validation outcomes. Values that are not valid become
+ * `undefined`.
+ * 
+ * @internal
+ */
+export function toInspect<T>(detailed: InspectDetailed<T>): Inspect<T> {
+    const value = (detail: VCValueDetail<T>) => detail.status === 'valid' ? detail.value : undefined;
+    return {
+        defaultValue:                 value(detailed.defaultValue),
+        globalValue:                  value(detailed.globalValue),
+        workspaceValue:               value(detailed.workspaceValue),
+        workspaceFolderValue:         value(detailed.workspaceFolderValue),
+        defaultLanguageValue:         value(detailed.defaultLanguageValue),
+        globalLanguageValue:          value(detailed.globalLanguageValue),
+        workspaceLanguageValue:       value(detailed.workspaceLanguageValue),
+        workspaceFolderLanguageValue: value(detailed.workspaceFolderLanguageValue)
+    };
+}
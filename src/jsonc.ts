@@ -0,0 +1,272 @@
+/**
+ * A segment of a path into a JSON document.
+ *
+ * Strings are object keys and numbers are array indices. A predicate matches the first object key
+ * that it accepts.
+ *
+ * @internal
+ */
+export type JsonPathSegment = string | number | ((key: string) => boolean);
+
+/**
+ * The location of a value in a JSON document.
+ *
+ * @internal
+ */
+export interface JsonLocation {
+
+    /**
+     * Offset of the first character of the value.
+     */
+    readonly offset: number;
+
+    /**
+     * Number of characters that the value spans.
+     */
+    readonly length: number;
+
+    /**
+     * Number of segments of the path that were followed to get to the value.
+     *
+     * This is less than the length of the path if the rest of the path does not exist in the
+     * document, in which case the location is of the deepest value that does.
+     */
+    readonly depth: number;
+
+    /**
+     * Location of the object member whose value this is, from the start of its key to the end of
+     * its value. Not defined for array elements and for the document as a whole.
+     */
+    readonly member?: { readonly offset: number, readonly length: number };
+
+}
+
+/**
+ * Find the value at `path` in a JSON document that may have comments and trailing commas, such as a
+ * vscode settings file.
+ *
+ * @return `undefined` if the document cannot be parsed.
+ *
+ * @internal
+ */
+export function findJsonValue(text: string, path: readonly JsonPathSegment[]): JsonLocation | undefined {
+    try {
+        const scanner = new Scanner(text);
+        scanner.skipTrivia();
+        return scanner.locate(path, 0);
+    } catch (error) {
+        if (error instanceof SyntaxError) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Parse a JSON document that may have comments and trailing commas, such as a vscode settings file.
+ *
+ * @throws `SyntaxError` if the document cannot be parsed.
+ *
+ * @internal
+ */
+export function parseJsonc(text: string): unknown {
+    const scanner = new Scanner(text);
+    scanner.skipTrivia();
+    const value = scanner.readValue();
+    scanner.skipTrivia();
+    scanner.expectEnd();
+    return value;
+}
+
+/**
+ * Whether a parsed JSON value is an object, as opposed to an array, a primitive or `null`.
+ *
+ * @internal
+ */
+export function isJsonObject(t: unknown): t is { [key: string]: unknown } {
+    return typeof t === 'object' && t !== null && !Array.isArray(t);
+}
+
+/**
+ * Minimal scanner for JSON with comments.
+ *
+ * `SyntaxError` is thrown as soon as something unexpected is encountered.
+ */
+class Scanner {
+
+    private pos = 0;
+
+    public constructor(private readonly text: string) {}
+
+    /**
+     * Find the value at `path[depth..]` starting from the value at the current position.
+     */
+    public locate(path: readonly JsonPathSegment[], depth: number): JsonLocation {
+        const offset  = this.pos;
+        const segment = path[depth];
+        const here    = () => ({ offset, length: this.pos - offset, depth });
+        if (depth === path.length) {
+            this.skipValue();
+            return here();
+        }
+        const char = this.text[this.pos];
+        if (char === '{' && typeof segment !== 'number') {
+            const matches = typeof segment === 'string' ? (key: string) => key === segment : segment;
+            let found: JsonLocation | undefined;
+            this.members('}', () => {
+                const keyOffset = this.pos;
+                const key       = this.readString();
+                this.skipTrivia();
+                this.expect(':');
+                this.skipTrivia();
+                if (!found && matches(key)) {
+                    found = this.locate(path, depth + 1);
+                    if (found.depth === depth + 1) {
+                        found = { ...found, member: { offset: keyOffset, length: this.pos - keyOffset } };
+                    }
+                } else {
+                    this.skipValue();
+                }
+            });
+            return found ?? here();
+        } else if (char === '[' && typeof segment === 'number') {
+            let found: JsonLocation | undefined;
+            let index = 0;
+            this.members(']', () => {
+                if (index++ === segment) {
+                    found = this.locate(path, depth + 1);
+                } else {
+                    this.skipValue();
+                }
+            });
+            return found ?? here();
+        }
+        this.skipValue();
+        return here();
+    }
+
+    public readValue(): unknown {
+        const char = this.text[this.pos];
+        if (char === '{') {
+            const object: { [key: string]: unknown } = {};
+            this.members('}', () => {
+                const key = this.readString();
+                this.skipTrivia();
+                this.expect(':');
+                this.skipTrivia();
+
+                // Defined rather than assigned, so that a `__proto__` key is kept as a plain member.
+                Object.defineProperty(object, key, { value: this.readValue(), enumerable: true, writable: true, configurable: true });
+            });
+            return object;
+        } else if (char === '[') {
+            const array: unknown[] = [];
+            this.members(']', () => array.push(this.readValue()));
+            return array;
+        } else if (char === '"') {
+            return this.readString();
+        }
+        const literal = this.match(literalPattern);
+        if (!literal) {
+            throw new SyntaxError(`Unexpected character at offset ${this.pos}.`);
+        }
+        this.pos += literal[0].length;
+        return JSON.parse(literal[0]);
+    }
+
+    public expectEnd(): void {
+        if (this.pos < this.text.length) {
+            throw new SyntaxError(`Unexpected character at offset ${this.pos}.`);
+        }
+    }
+
+    public skipTrivia(): void {
+        for (;;) {
+            const rest = this.text.slice(this.pos, this.pos + 2);
+            if (/^\s/.test(rest)) {
+                this.pos++;
+            } else if (rest === '//') {
+                const end = this.text.indexOf('\n', this.pos);
+                this.pos  = end < 0 ? this.text.length : end;
+            } else if (rest === '/*') {
+                const end = this.text.indexOf('*/', this.pos + 2);
+                if (end < 0) {
+                    throw new SyntaxError('Unterminated comment.');
+                }
+                this.pos = end + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Consume the members of an object or array, calling `member` at the start of each one.
+     */
+    private members(close: '}' | ']', member: () => void): void {
+        this.pos++;
+        this.skipTrivia();
+        while (this.text[this.pos] !== close) {
+            member();
+            this.skipTrivia();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+                this.skipTrivia();
+            } else if (this.text[this.pos] !== close) {
+                throw new SyntaxError(`Expected ',' or '${close}'.`);
+            }
+        }
+        this.pos++;
+    }
+
+    private skipValue(): void {
+        const char = this.text[this.pos];
+        if (char === '{') {
+            this.members('}', () => {
+                this.readString();
+                this.skipTrivia();
+                this.expect(':');
+                this.skipTrivia();
+                this.skipValue();
+            });
+        } else if (char === '[') {
+            this.members(']', () => this.skipValue());
+        } else if (char === '"') {
+            this.readString();
+        } else {
+            const literal = this.match(literalPattern);
+            if (!literal) {
+                throw new SyntaxError(`Unexpected character at offset ${this.pos}.`);
+            }
+            this.pos += literal[0].length;
+        }
+    }
+
+    private readString(): string {
+        const match = this.match(stringPattern);
+        if (!match) {
+            throw new SyntaxError(`Expected a string at offset ${this.pos}.`);
+        }
+        this.pos += match[0].length;
+        return JSON.parse(match[0]) as string;
+    }
+
+    /**
+     * Match a sticky `pattern` at the current position.
+     */
+    private match(pattern: RegExp): RegExpExecArray | null {
+        pattern.lastIndex = this.pos;
+        return pattern.exec(this.text);
+    }
+
+    private expect(char: string): void {
+        if (this.text[this.pos] !== char) {
+            throw new SyntaxError(`Expected '${char}' at offset ${this.pos}.`);
+        }
+        this.pos++;
+    }
+
+}
+
+const literalPattern = /true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const stringPattern  = /"(?:[^"\\\n]|\\.)*"/y;
@@ -0,0 +1,158 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationChangeEvent, ConfigurationScope, Disposable, Uri, WorkspaceFolder, WorkspaceFoldersChangeEvent } from 'vscode';
+import { MemoryValue, settingsValues, VCMemoryConfiguration } from './memory-configuration';
+import { VCConfigurationSection, VCConfigurationSource } from './source';
+
+/**
+ * Configuration source that gets values from a language client through `workspace/configuration`
+ * requests, for language servers.
+ *
+ * Readers read synchronously but requests are asynchronous, so the values of the configurations in
+ * `names` are requested in advance by `refresh`, which should be called once the server has been
+ * initialized and again whenever the client notifies of a configuration change. For instance, with
+ * the `vscode-languageserver` package:
+ *
+ * ```
+ * const configuration = new VCLspConfiguration({
+ *     request:          items => connection.workspace.getConfiguration(items),
+ *     names:            [ 'leaper.detectedPairs' ],
+ *     workspaceFolders: folders.map((folder, index) => ({ uri: URI.parse(folder.uri), name: folder.name, index }))
+ * });
+ * connection.onDidChangeConfiguration(() => void configuration.refresh());
+ * await configuration.refresh();
+ * const reader = new VCReader({ name: 'leaper.detectedPairs', validate, transform, source: configuration });
+ * ```
+ *
+ * Language clients only report the effective value of a configuration, so the value reported for
+ * the workspace as a whole is treated as the global value, and the value reported for a workspace
+ * folder is treated as the workspace folder value if it differs from that. Language specific values
+ * are not available, since `workspace/configuration` requests cannot ask for them. The values
+ * cannot be written to, so writing values through this source (such as with `VCReader.update`)
+ * fails.
+ */
+export class VCLspConfiguration implements VCConfigurationSource {
+
+    private readonly memory: VCMemoryConfiguration;
+
+    /**
+     * Number of refreshes started, used to drop the outcomes of refreshes that have been superseded.
+     */
+    private refreshes = 0;
+
+    public constructor(private readonly args: VCLspConfigurationParams) {
+        this.memory = new VCMemoryConfiguration(args);
+        this.memory.replaceValues(settingsValues(args.defaults, 'default'));
+    }
+
+    public get workspaceFolders(): readonly WorkspaceFolder[] | undefined {
+        return this.memory.workspaceFolders;
+    }
+
+    public get workspaceFile(): Uri | undefined {
+        return this.memory.workspaceFile;
+    }
+
+    /**
+     * Request the values of the configurations from the language client, then fire a configuration
+     * change event if any value changed.
+     *
+     * @return A promise that resolves once the values have been updated. If the request fails, the
+     *         promise rejects and the values are left as they were.
+     */
+    public async refresh(): Promise<void> {
+        const refresh = ++this.refreshes;
+        const folders = this.args.workspaceFolders ?? [];
+        const items   = this.args.names.flatMap(name => [
+            { section: name },
+            ...folders.map(folder => ({ scopeUri: folder.uri.toString(), section: name }))
+        ]);
+        const results = await this.args.request(items);
+        if (refresh !== this.refreshes) {
+            return;
+        }
+        const values: MemoryValue[] = [ ...settingsValues(this.args.defaults, 'default') ];
+        this.args.names.forEach((name, i) => {
+
+            // Clients respond with `null` for configurations that have no value.
+            const offset = i * (folders.length + 1);
+            const global = results[offset] ?? undefined;
+            if (global !== undefined) {
+                values.push({ key: 'globalValue', name, value: global });
+            }
+            folders.forEach((folder, j) => {
+                const value = results[offset + j + 1] ?? undefined;
+                if (value !== undefined && !isDeepStrictEqual(value, global)) {
+                    values.push({ key: 'workspaceFolderValue', name, value, folder });
+                }
+            });
+        });
+        this.memory.replaceValues(values);
+    }
+
+    public getConfiguration(section?: string, scope?: ConfigurationScope | null): VCConfigurationSection {
+        const configuration = this.memory.getConfiguration(section, scope);
+        return {
+            inspect: child => configuration.inspect(child),
+            update:  ()    => Promise.reject(new Error('Values cannot be written to through a VCLspConfiguration.'))
+        };
+    }
+
+    public getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        return this.memory.getWorkspaceFolder(uri);
+    }
+
+    public onDidChangeConfiguration(listener: (event: ConfigurationChangeEvent) => unknown): Disposable {
+        return this.memory.onDidChangeConfiguration(listener);
+    }
+
+    public onDidChangeWorkspaceFolders(listener: (event: WorkspaceFoldersChangeEvent) => unknown): Disposable {
+        return this.memory.onDidChangeWorkspaceFolders(listener);
+    }
+
+}
+
+export interface VCLspConfigurationParams {
+
+    /**
+     * Callback used to send a `workspace/configuration` request to the language client.
+     *
+     * This should resolve to the values of the requested items, in the same order as the items.
+     */
+    readonly request: (items: VCLspConfigurationItem[]) => Thenable<unknown[]>;
+
+    /**
+     * Full names of the configurations to request.
+     */
+    readonly names: readonly string[];
+
+    /**
+     * Default values, in the same format as a settings file.
+     *
+     * These are used when the language client does not report a value, or when the reported value
+     * is invalid.
+     */
+    readonly defaults?: { readonly [name: string]: unknown };
+
+    /**
+     * The workspace folders that are open. Defaults to no workspace being open.
+     */
+    readonly workspaceFolders?: readonly WorkspaceFolder[];
+
+}
+
+/**
+ * An item of a `workspace/configuration` request.
+ */
+export interface VCLspConfigurationItem {
+
+    /**
+     * The scope to get the value for, as a URI string.
+     */
+    readonly scopeUri?: string;
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly section?: string;
+
+}
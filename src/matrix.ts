@@ -0,0 +1,136 @@
+import { ConfigurationScope, WorkspaceFolder } from 'vscode';
+import { Inspect } from './inspect';
+import { VCReadResult } from './vc-reader';
+import { VCReaderError } from './errors';
+import { defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * How a configuration resolves in each workspace folder and for each language.
+ *
+ * The matrix has a row for each workspace folder and a column for each language. The first column
+ * is for reading without a language, where language specific values do not apply.
+ */
+export interface VCInspectMatrix<T, E> {
+
+    /**
+     * The workspace folder of each row, in the same order as `workspace.workspaceFolders`.
+     *
+     * When no workspace folders are open, there is a single row with an `undefined` folder, which
+     * reads as if from outside of any workspace folder.
+     */
+    readonly folders: readonly (WorkspaceFolder | undefined)[];
+
+    /**
+     * The language of each column. The first column has an `undefined` language.
+     */
+    readonly languageIds: readonly (string | undefined)[];
+
+    /**
+     * The cells of the matrix, such that `cells[i][j]` is for `folders[i]` and `languageIds[j]`.
+     */
+    readonly cells: readonly (readonly VCInspectMatrixCell<T, E>[])[];
+
+}
+
+/**
+ * How a configuration resolves in a single workspace folder for a single language.
+ */
+export interface VCInspectMatrixCell<T, E> {
+
+    /**
+     * The workspace folder that the values were read from.
+     */
+    readonly folder: WorkspaceFolder | undefined;
+
+    /**
+     * The language that the values were read for, or `undefined` if they were read without a
+     * language.
+     */
+    readonly languageId: string | undefined;
+
+    /**
+     * The validated values of the configuration. See `VCReader.inspect`.
+     */
+    readonly inspect: Inspect<T>;
+
+    /**
+     * The effective value and the scope that it came from, or `undefined` if an effective value
+     * could not be obtained, in which case `error` says why.
+     */
+    readonly effective: VCReadResult<E> | undefined;
+
+    /**
+     * The error that was thrown when reading the effective value, if any.
+     */
+    readonly error?: VCReaderError;
+
+}
+
+/**
+ * Read a configuration from every workspace folder for each of a list of languages.
+ *
+ * @param inspect Callback that yields the validated values from a scope.
+ * @param readWithSource Callback that yields the effective value from a scope.
+ * @param source Where the workspace folders are looked up.
+ *
+ * @throws Any error thrown by the callbacks that is not a `VCReaderError`.
+ *
+ * @internal
+ */
+export function inspectMatrix<T, E>(
+    inspect:        (scope: ConfigurationScope | undefined) => Inspect<T>,
+    readWithSource: (scope: ConfigurationScope | undefined) => VCReadResult<E>,
+    languageIds:    readonly string[],
+    source:         VCConfigurationSource = defaultSource()
+): VCInspectMatrix<T, E> {
+    const { folders, columns, scopes } = matrixScopes(languageIds, source);
+    const cells = scopes.map(row => row.map(({ folder, languageId, scope }) => {
+        const cell = { folder, languageId, inspect: inspect(scope) };
+        try {
+            return { ...cell, effective: readWithSource(scope) };
+        } catch (error) {
+            if (!(error instanceof VCReaderError)) {
+                throw error;
+            }
+            return { ...cell, effective: undefined, error };
+        }
+    }));
+    return { folders, languageIds: columns, cells };
+}
+
+/**
+ * Get the scope of each cell of an inspection matrix (see `VCInspectMatrix`).
+ *
+ * @internal
+ */
+export function matrixScopes(
+    languageIds: readonly string[], 
+    source:      Pick<VCConfigurationSource, 'workspaceFolders'> = defaultSource()
+): {
+    folders: (WorkspaceFolder | undefined)[],
+    columns: (string | undefined)[],
+    scopes:  MatrixScope[][]
+} {
+    const folders: (WorkspaceFolder | undefined)[] = source.workspaceFolders ? [ ...source.workspaceFolders ] : [ undefined ];
+    const columns: (string | undefined)[]          = [ undefined, ...languageIds ];
+    const scopes = folders.map(folder => columns.map(languageId => {
+        const uri = folder?.uri;
+        return { folder, languageId, scope: languageId === undefined ? uri : { uri, languageId } };
+    }));
+    return { folders, columns, scopes };
+}
+
+/**
+ * The scope of a cell of an inspection matrix.
+ *
+ * @internal
+ */
+export interface MatrixScope {
+
+    readonly folder: WorkspaceFolder | undefined;
+
+    readonly languageId: string | undefined;
+
+    readonly scope: ConfigurationScope | undefined;
+
+}
@@ -0,0 +1,338 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationChangeEvent, ConfigurationScope, ConfigurationTarget, Disposable, Uri, WorkspaceFolder, WorkspaceFoldersChangeEvent } from 'vscode';
+import { InspectKey } from './inspect';
+import { isJsonObject } from './jsonc';
+import { scopeLanguageId, scopeUri } from './scope';
+import { configurationTargets, VCConfigurationSection, VCConfigurationSource, VCInspectResult } from './source';
+
+/**
+ * In-memory configuration source that does not require vscode.
+ *
+ * This models all of the scopes that `inspect` yields values for, along with workspace folders and
+ * language specific values, so that readers (and code that uses them) can be unit tested in plain
+ * node by passing an instance of this class as their `source` parameter:
+ *
+ * ```
+ * const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+ * configuration.setValue('defaultValue', 'leaper.detectedPairs', [ '()', '[]' ]);
+ * configuration.setValue('workspaceFolderLanguageValue', 'leaper.detectedPairs', [ '{}' ], { folder, languageId: 'c' });
+ * const reader = new VCReader({ name: 'leaper.detectedPairs', validate, transform, source: configuration });
+ * ```
+ *
+ * Outside of vscode, `Uri`s can be created with the `vscode-uri` package, whose `URI` class is the
+ * one that vscode's `Uri` is based on.
+ *
+ * Unlike vscode, the values of each scope are kept separately, so workspace values and workspace
+ * folder values are distinct even when there is only one workspace folder. Change events are fired
+ * synchronously, as soon as a value is set.
+ */
+export class VCMemoryConfiguration implements VCConfigurationSource {
+
+    /**
+     * The values of each scope, keyed by `valueKey`.
+     */
+    private readonly values = new Map<string, MemoryValue>();
+
+    private folders: readonly WorkspaceFolder[] | undefined;
+
+    private readonly configurationListeners = new Set<(event: ConfigurationChangeEvent) => unknown>();
+
+    private readonly folderListeners = new Set<(event: WorkspaceFoldersChangeEvent) => unknown>();
+
+    public constructor(private readonly args: VCMemoryConfigurationParams = {}) {
+        this.folders = args.workspaceFolders;
+    }
+
+    public get workspaceFolders(): readonly WorkspaceFolder[] | undefined {
+        return this.folders;
+    }
+
+    public get workspaceFile(): Uri | undefined {
+        return this.args.workspaceFile;
+    }
+
+    /**
+     * Set the value of a configuration in a scope, then fire a configuration change event.
+     *
+     * @param key The scope to set the value in.
+     * @param name Full name of the configuration.
+     * @param value The value to set. `undefined` removes the value.
+     * @param options The workspace folder of workspace folder values, and the language of language
+     *                specific values.
+     *
+     * @throws `Error` if `key` is a workspace folder scope but no `folder` is specified, or if `key`
+     *         is a language specific scope but no `languageId` is specified.
+     */
+    public setValue(
+        key:     InspectKey,
+        name:    string,
+        value:   unknown,
+        options: { readonly folder?: WorkspaceFolder, readonly languageId?: string } = {}
+    ): void {
+        const folder     = key.startsWith('workspaceFolder') ? options.folder : undefined;
+        const languageId = key.endsWith('LanguageValue') ? options.languageId : undefined;
+        if (key.startsWith('workspaceFolder') && !folder) {
+            throw new Error(`A workspace folder is required to set ${key}.`);
+        }
+        if (key.endsWith('LanguageValue') && languageId === undefined) {
+            throw new Error(`A language is required to set ${key}.`);
+        }
+        this.write([ { key, name, value, folder, languageId } ]);
+    }
+
+    /**
+     * Replace all of the values with `values`, then fire a configuration change event if any of
+     * them changed.
+     *
+     * If `values` has several values for the same scope, configuration, workspace folder and
+     * language, the last one is kept.
+     *
+     * @internal
+     */
+    public replaceValues(values: readonly MemoryValue[]): void {
+        const next = new Map(values.map(value => [ this.valueKey(value.key, value.name, value.folder, value.languageId), value ]));
+        const changes: MemoryValue[] = [ ...next ]
+            .filter(([ valueKey, value ]) => !isDeepStrictEqual(this.values.get(valueKey)?.value, value.value))
+            .map(([ , value ]) => value);
+        for (const [ valueKey, removed ] of this.values) {
+            if (!next.has(valueKey)) {
+                changes.push({ ...removed, value: undefined });
+            }
+        }
+        if (changes.length > 0) {
+            this.write(changes);
+        }
+    }
+
+    /**
+     * Replace the workspace folders, then fire a workspace folders change event.
+     *
+     * @param folders The new workspace folders, or `undefined` for no workspace.
+     */
+    public setWorkspaceFolders(folders: readonly WorkspaceFolder[] | undefined): void {
+        const previous = this.folders ?? [];
+        this.folders   = folders;
+        const event    = {
+            added:   (folders ?? []).filter(folder => !previous.includes(folder)),
+            removed: previous.filter(folder => !(folders ?? []).includes(folder))
+        };
+        this.folderListeners.forEach(listener => listener(event));
+    }
+
+    public getConfiguration(section?: string, scope?: ConfigurationScope | null): VCConfigurationSection {
+        const uri        = scopeUri(scope ?? undefined);
+        const folder     = uri ? this.getWorkspaceFolder(uri) : undefined;
+        const languageId = scopeLanguageId(scope ?? undefined);
+        const fullName   = (child: string) => section ? `${section}.${child}` : child;
+        return {
+            inspect: <T>(child: string): VCInspectResult<T> => {
+                const name = fullName(child);
+                const get  = (key: InspectKey, folder?: WorkspaceFolder, languageId?: string) =>
+                    this.values.get(this.valueKey(key, name, folder, languageId))?.value as T | undefined;
+                const languageIds = [ ...new Set(
+                    [ ...this.values.values() ]
+                        .filter(value => value.name === name && value.languageId !== undefined)
+                        .map(value => value.languageId as string)
+                ) ].sort();
+                const inLanguage = languageId !== undefined;
+                return {
+                    key:                          name,
+                    defaultValue:                 get('defaultValue'),
+                    globalValue:                  get('globalValue'),
+                    workspaceValue:               this.folders ? get('workspaceValue') : undefined,
+                    workspaceFolderValue:         folder ? get('workspaceFolderValue', folder) : undefined,
+                    defaultLanguageValue:         inLanguage ? get('defaultLanguageValue', undefined, languageId) : undefined,
+                    globalLanguageValue:          inLanguage ? get('globalLanguageValue', undefined, languageId) : undefined,
+                    workspaceLanguageValue:       inLanguage && this.folders ? get('workspaceLanguageValue', undefined, languageId) : undefined,
+                    workspaceFolderLanguageValue: inLanguage && folder ? get('workspaceFolderLanguageValue', folder, languageId) : undefined,
+                    languageIds:                  languageIds.length > 0 ? languageIds : undefined
+                };
+            },
+            update: (child: string, value: unknown, target?: ConfigurationTarget | boolean | null, overrideInLanguage?: boolean) => {
+                try {
+                    const key = this.updateKey(target, folder, overrideInLanguage ?? false, languageId);
+                    this.setValue(key, fullName(child), value, { folder, languageId });
+                    return Promise.resolve();
+                } catch (error) {
+                    return Promise.reject(error);
+                }
+            }
+        };
+    }
+
+    /**
+     * Get the workspace folder that contains `uri`, which is the innermost one if they are nested.
+     */
+    public getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined {
+        const path = uri.toString();
+        return [ ...(this.folders ?? []) ]
+            .filter(folder => {
+                const folderPath = folder.uri.toString();
+                return path === folderPath || path.startsWith(folderPath.endsWith('/') ? folderPath : `${folderPath}/`);
+            })
+            .sort((a, b) => b.uri.toString().length - a.uri.toString().length)[0];
+    }
+
+    public onDidChangeConfiguration(listener: (event: ConfigurationChangeEvent) => unknown): Disposable {
+        this.configurationListeners.add(listener);
+        return { dispose: () => this.configurationListeners.delete(listener) };
+    }
+
+    public onDidChangeWorkspaceFolders(listener: (event: WorkspaceFoldersChangeEvent) => unknown): Disposable {
+        this.folderListeners.add(listener);
+        return { dispose: () => this.folderListeners.delete(listener) };
+    }
+
+    /**
+     * Set values, then fire a single configuration change event for all of them.
+     */
+    private write(changes: readonly MemoryValue[]): void {
+        for (const change of changes) {
+            const valueKey = this.valueKey(change.key, change.name, change.folder, change.languageId);
+            if (change.value === undefined) {
+                this.values.delete(valueKey);
+            } else {
+                this.values.set(valueKey, change);
+            }
+        }
+        const event = {
+            affectsConfiguration: (section: string, scope?: ConfigurationScope) => changes.some(({ name, folder, languageId }) => {
+                if (name !== section && !name.startsWith(`${section}.`) && !section.startsWith(`${name}.`)) {
+                    return false;
+                } else if (scope === undefined || scope === null) {
+                    return true;
+                }
+                const uri = scopeUri(scope);
+                return (!folder || (uri !== undefined && this.getWorkspaceFolder(uri) === folder))
+                    && (languageId === undefined || scopeLanguageId(scope) === languageId);
+            })
+        };
+        this.configurationListeners.forEach(listener => listener(event));
+    }
+
+    /**
+     * Get the scope that `WorkspaceConfiguration.update` writes to.
+     *
+     * As with vscode, a `target` of `true` means the global settings and `false` means the workspace
+     * settings. If no `target` is specified, the workspace folder settings are written to if the
+     * scope is within a workspace folder, otherwise the workspace settings are.
+     *
+     * @throws `Error` if the target settings do not exist, or if `overrideInLanguage` is `true` but
+     *         the scope has no language.
+     */
+    private updateKey(
+        target:             ConfigurationTarget | boolean | null | undefined,
+        folder:             WorkspaceFolder | undefined,
+        overrideInLanguage: boolean,
+        languageId:         string | undefined
+    ): InspectKey {
+        if (overrideInLanguage && languageId === undefined) {
+            throw new Error('Cannot write a language specific value from a scope without a language.');
+        }
+        const suffix = overrideInLanguage ? 'LanguageValue' : 'Value';
+        if (target === true || target === configurationTargets.Global) {
+            return `global${suffix}`;
+        } else if (target === configurationTargets.WorkspaceFolder || ((target === undefined || target === null) && folder)) {
+            if (!folder) {
+                throw new Error('Cannot write to the workspace folder settings from a scope outside of any workspace folder.');
+            }
+            return `workspaceFolder${suffix}`;
+        } else if (!this.folders) {
+            throw new Error('Cannot write to the workspace settings when no workspace is open.');
+        }
+        return `workspace${suffix}`;
+    }
+
+    private valueKey(key: InspectKey, name: string, folder?: WorkspaceFolder, languageId?: string): string {
+        return JSON.stringify([ key, name, folder?.uri.toString() ?? null, languageId ?? null ]);
+    }
+
+}
+
+export interface VCMemoryConfigurationParams {
+
+    /**
+     * The workspace folders that are open. Defaults to no workspace being open.
+     */
+    readonly workspaceFolders?: readonly WorkspaceFolder[];
+
+    /**
+     * The workspace file of a multi-root workspace. Defaults to the workspace not being a multi-root
+     * one.
+     */
+    readonly workspaceFile?: Uri;
+
+}
+
+/**
+ * A value of a configuration in a scope.
+ *
+ * @internal
+ */
+export interface MemoryValue {
+
+    /**
+     * The scope that the value is in.
+     */
+    readonly key: InspectKey;
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    readonly value: unknown;
+
+    /**
+     * The workspace folder that the value is in. Only used for workspace folder values.
+     */
+    readonly folder?: WorkspaceFolder;
+
+    /**
+     * The language that the value is specific to. Only used for language specific values.
+     */
+    readonly languageId?: string;
+
+}
+
+/**
+ * Get the values in a settings file, such as a `settings.json` file or the `settings` property of
+ * a workspace file, including the language specific values in `[languageId]` blocks.
+ *
+ * As in vscode, when a configuration has a value for a language in both a block for that language
+ * alone (such as `[c]`) and a block for several languages (such as `[c][cpp]`), the value in the
+ * block for that language alone takes precedence regardless of the order of the blocks. Between
+ * blocks for several languages, the one that comes later in the file takes precedence. The values
+ * are ordered accordingly, so that the value that takes precedence comes last.
+ *
+ * @param settings The parsed settings file. Anything other than an object yields no values.
+ * @param scope The scope that the settings file is for.
+ * @param folder The workspace folder that the settings file is in. Only used for workspace folder
+ *               settings.
+ *
+ * @internal
+ */
+export function settingsValues(
+    settings: unknown,
+    scope:    'default' | 'global' | 'workspace' | 'workspaceFolder',
+    folder?:  WorkspaceFolder
+): MemoryValue[] {
+    const values:         MemoryValue[] = [];
+    const multiLanguage:  MemoryValue[] = [];
+    const singleLanguage: MemoryValue[] = [];
+    for (const [ name, value ] of Object.entries(isJsonObject(settings) ? settings : {})) {
+        if (/^(\[[^\]]+\])+$/.test(name) && isJsonObject(value)) {
+            const languageIds = name.slice(1, -1).split('][');
+            for (const languageId of languageIds) {
+                for (const [ languageName, languageValue ] of Object.entries(value)) {
+                    (languageIds.length === 1 ? singleLanguage : multiLanguage).push(
+                        { key: `${scope}LanguageValue`, name: languageName, value: languageValue, folder, languageId }
+                    );
+                }
+            }
+        } else {
+            values.push({ key: `${scope}Value`, name, value, folder });
+        }
+    }
+    return [ ...values, ...multiLanguage, ...singleLanguage ];
+}
@@ -0,0 +1,83 @@
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * Strategy that determines how the valid values of a configuration in different scopes are
+ * combined into the effective value.
+ *
+ *   - `replace`:    The value in the highest priority scope wins. This is the default strategy, and
+ *                   is how vscode itself resolves configuration values.
+ *   - `concat`:     Array values are concatenated, with the values from lower priority scopes coming
+ *                   first.
+ *   - `unionByKey`: Array values are concatenated, except that when an element of a higher priority
+ *                   value has the same key (as yielded by `key`) as an element of a lower priority
+ *                   value, it replaces that element instead of being appended. `key` defaults to the
+ *                   element itself.
+ *   - `deepMerge`:  Object values are merged recursively, with the properties of higher priority
+ *                   values overriding those of lower priority values.
+ *   - `custom`:     Values are combined with `reduce`, which is called with the combined value of
+ *                   the lower priority scopes and the value of the next higher priority scope.
+ *
+ * For the `concat`, `unionByKey` and `deepMerge` strategies, a value of the wrong type (such as a
+ * non-array value with the `concat` strategy) simply replaces the values of lower priority scopes.
+ */
+export type MergeStrategy<T> =
+    { readonly mode: 'replace' }
+    | { readonly mode: 'concat' }
+    | { readonly mode: 'unionByKey', readonly key?: (element: ElementType<T>) => unknown }
+    | { readonly mode: 'deepMerge' }
+    | { readonly mode: 'custom', readonly reduce: (lower: T, higher: T) => T };
+
+/**
+ * The type of the elements of `T` if `T` is an array, otherwise `never`.
+ */
+export type ElementType<T> = T extends readonly (infer U)[] ? U : never;
+
+/**
+ * Combine the value of a scope with the combined value of the lower priority scopes.
+ *
+ * @internal
+ */
+export function mergeValues<T>(strategy: MergeStrategy<T>, lower: T, higher: T): T {
+    switch (strategy.mode) {
+        case 'replace':
+            return higher;
+        case 'concat':
+            return Array.isArray(lower) && Array.isArray(higher) ? [ ...lower, ...higher ] as unknown as T : higher;
+        case 'unionByKey':
+            return Array.isArray(lower) && Array.isArray(higher)
+                ? unionByKey(lower, higher, strategy.key ?? ((element) => element)) as unknown as T
+                : higher;
+        case 'deepMerge':
+            return deepMerge(lower, higher) as T;
+        case 'custom':
+            return strategy.reduce(lower, higher);
+    }
+}
+
+function unionByKey<U>(lower: readonly U[], higher: readonly U[], key: (element: U) => unknown): U[] {
+    const union = [ ...lower ];
+    for (const element of higher) {
+        const i = union.findIndex(other => isDeepStrictEqual(key(other), key(element)));
+        if (i === -1) {
+            union.push(element);
+        } else {
+            union[i] = element;
+        }
+    }
+    return union;
+}
+
+function deepMerge(lower: unknown, higher: unknown): unknown {
+    if (!isPlainObject(lower) || !isPlainObject(higher)) {
+        return higher;
+    }
+    const merged: Record<string, unknown> = { ...lower };
+    for (const key of Object.keys(higher)) {
+        merged[key] = key in lower ? deepMerge(lower[key], higher[key]) : higher[key];
+    }
+    return merged;
+}
+
+function isPlainObject(t: unknown): t is Record<string, unknown> {
+    return typeof t === 'object' && t !== null && !Array.isArray(t);
+}
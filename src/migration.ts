@@ -0,0 +1,178 @@
+import { ConfigurationScope, ConfigurationTarget, WorkspaceFolder } from 'vscode';
+import { InspectKey } from './inspect';
+import { splitName } from './vc-reader';
+import { targetInspectKey } from './update';
+import { configurationTargets, defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Options for migrating values from a deprecated configuration to a new one.
+ */
+export interface VCMigrationOptions {
+
+    /**
+     * If `true`, nothing is written, and the report describes what would have been done.
+     *
+     * Defaults to `true`, so that a migration has to be explicitly asked for.
+     */
+    readonly dryRun?: boolean;
+
+    /**
+     * Whether to remove the deprecated values that were migrated.
+     *
+     * Defaults to `false`.
+     */
+    readonly clearDeprecated?: boolean;
+
+    /**
+     * Languages whose language specific values should be migrated.
+     *
+     * Defaults to every language that vscode reports the deprecated configuration as having language
+     * specific values for.
+     */
+    readonly languageIds?: readonly string[];
+
+}
+
+/**
+ * Report of what a migration did (or would have done, for a dry run).
+ */
+export interface VCMigrationReport {
+
+    /**
+     * Whether this was a dry run, in which case nothing was written.
+     */
+    readonly dryRun: boolean;
+
+    /**
+     * An entry for each scope where the deprecated configuration has a value.
+     */
+    readonly entries: readonly VCMigrationEntry[];
+
+}
+
+/**
+ * What a migration did (or would have done) with the deprecated value in a single scope.
+ */
+export interface VCMigrationEntry {
+
+    /**
+     * The settings that the deprecated value is in.
+     */
+    readonly target: ConfigurationTarget;
+
+    /**
+     * The workspace folder whose settings the deprecated value is in. Only defined when `target` is
+     * `ConfigurationTarget.WorkspaceFolder`.
+     */
+    readonly workspaceFolder?: WorkspaceFolder;
+
+    /**
+     * The language that the deprecated value is specific to, if any.
+     */
+    readonly languageId?: string;
+
+    /**
+     * `migrated` if the value was (or would be, for a dry run) migrated, otherwise `skipped`.
+     */
+    readonly status: 'migrated' | 'skipped';
+
+    /**
+     * Why the value was skipped. Only defined when `status` is `skipped`.
+     */
+    readonly reason?: string;
+
+    /**
+     * The value of the deprecated configuration.
+     */
+    readonly deprValue: unknown;
+
+    /**
+     * The converted value that was (or would be) written to the new configuration. Only defined
+     * when `status` is `migrated`.
+     */
+    readonly newValue?: unknown;
+
+}
+
+/**
+ * A place that a configuration value can be written to.
+ *
+ * @internal
+ */
+export interface Location {
+
+    readonly target: ConfigurationTarget;
+
+    readonly workspaceFolder?: WorkspaceFolder;
+
+    readonly languageId?: string;
+
+    /**
+     * A scope from which the value at this location can be inspected and written.
+     */
+    readonly scope: ConfigurationScope | undefined;
+
+    /**
+     * The `inspect` scope that corresponds to this location.
+     */
+    readonly key: InspectKey;
+
+}
+
+/**
+ * Enumerate every location where a configuration can have a user defined value.
+ *
+ * Workspace folder locations are only included in multi-root workspaces, since the workspace folder
+ * settings are the workspace settings in a single folder workspace.
+ *
+ * @param languageIds Languages to include language specific locations for. If not specified, the
+ *                    languages for which vscode reports `name` as having language specific values
+ *                    are used.
+ * @param source Where the configuration is read from.
+ *
+ * @internal
+ */
+export function enumerateLocations(
+    name:         string, 
+    languageIds?: readonly string[], 
+    source:       VCConfigurationSource = defaultSource()
+): Location[] {
+    const { section, child } = splitName(name);
+    const folders = source.workspaceFile ? (source.workspaceFolders ?? []) : [];
+    if (!languageIds) {
+        const found = new Set<string>();
+        for (const scope of [ undefined, ...folders ]) {
+            source.getConfiguration(section, scope).inspect(child)?.languageIds?.forEach(id => found.add(id));
+        }
+        languageIds = [ ...found ];
+    }
+
+    const locations: Location[] = [];
+    const add = (
+        target:          ConfigurationTarget,
+        scope:           ConfigurationScope | undefined,
+        workspaceFolder: WorkspaceFolder | undefined,
+        languageId:      string | undefined
+    ) => {
+        const key = targetInspectKey(target, languageId !== undefined);
+        locations.push({ target, scope, workspaceFolder, languageId, key });
+    };
+    const hasWorkspace = source.workspaceFolders !== undefined;
+    add(configurationTargets.Global, undefined, undefined, undefined);
+    if (hasWorkspace) {
+        add(configurationTargets.Workspace, undefined, undefined, undefined);
+    }
+    for (const folder of folders) {
+        add(configurationTargets.WorkspaceFolder, folder, folder, undefined);
+    }
+    for (const languageId of languageIds) {
+        add(configurationTargets.Global, { languageId }, undefined, languageId);
+        if (hasWorkspace) {
+            add(configurationTargets.Workspace, { languageId }, undefined, languageId);
+        }
+        for (const folder of folders) {
+            add(configurationTargets.WorkspaceFolder, { uri: folder.uri, languageId }, folder, languageId);
+        }
+    }
+    return locations;
+}
@@ -0,0 +1,283 @@
+import { ConfigurationScope, Disposable, OutputChannel, QuickPickItem, WorkspaceFolder } from 'vscode';
+import { InspectDetailed, InspectKey } from './inspect';
+import { VCReadResult } from './vc-reader';
+import { matrixScopes } from './matrix';
+import { revealSetting } from './settings-file';
+import { VCReaderError } from './errors';
+import { vscodeModule } from './source';
+
+/**
+ * What a registry needs of a reader to audit it.
+ *
+ * Both `VCReader` and `VCDualReader` satisfy this.
+ */
+export interface VCRegisteredReader {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    /**
+     * Full name of the deprecated configuration, if the reader has one.
+     */
+    readonly deprName?: string;
+
+    inspectDetailed(scope?: ConfigurationScope): InspectDetailed<unknown>;
+
+    deprInspectDetailed?(scope?: ConfigurationScope): InspectDetailed<unknown>;
+
+    readWithSource(scope?: ConfigurationScope): VCReadResult<unknown>;
+
+}
+
+/**
+ * A problem with the values of a registered configuration found by `VCReaderRegistry.checkHealth`.
+ */
+export interface VCHealthIssue {
+
+    /**
+     * What the problem is.
+     *
+     *   - `invalid`:      A value fails validation (or is ignored due to the declared scope of the
+     *                     configuration).
+     *   - `deprecated`:   A value is set for the deprecated configuration of a `VCDualReader`.
+     *   - `unresolvable`: An effective value cannot be obtained.
+     */
+    readonly kind: 'invalid' | 'deprecated' | 'unresolvable';
+
+    /**
+     * Full name of the configuration that has the problem.
+     */
+    readonly name: string;
+
+    /**
+     * The workspace folder that the problem occurs in.
+     *
+     * For `invalid` and `deprecated` issues, this is only defined for workspace folder values, since
+     * other values are the same in every workspace folder.
+     */
+    readonly folder: WorkspaceFolder | undefined;
+
+    /**
+     * The language that the problem occurs for.
+     *
+     * For `invalid` and `deprecated` issues, this is only defined for language specific values.
+     */
+    readonly languageId: string | undefined;
+
+    /**
+     * The `inspect` scope of the offending value. Not defined for `unresolvable` issues.
+     */
+    readonly source?: InspectKey;
+
+    /**
+     * Full name of the configuration that replaces the deprecated one. Only defined for
+     * `deprecated` issues.
+     */
+    readonly replacement?: string;
+
+    /**
+     * JSON path to the offending part of the value (see `ValidationFailure.path`). Only defined for
+     * `invalid` issues.
+     */
+    readonly path?: string;
+
+    /**
+     * Human readable description of the problem.
+     */
+    readonly message: string;
+
+}
+
+/**
+ * Registry of the readers that an extension creates, which allows all of their configurations to be
+ * audited at once.
+ *
+ * Readers are recorded by passing the registry as the `registry` parameter of their constructors,
+ * and are removed again when they are disposed:
+ *
+ * ```
+ * const registry = new VCReaderRegistry();
+ * const reader   = new VCReader({ name: 'leaper.detectedPairs', validate, transform, registry });
+ * context.subscriptions.push(registry.registerHealthCheckCommand('leaper.checkConfigurationHealth'));
+ * ```
+ *
+ * Other readers can be recorded with `register`.
+ */
+export class VCReaderRegistry implements Disposable {
+
+    private readonly registered = new Set<VCRegisteredReader>();
+
+    private outputChannel: OutputChannel | undefined;
+
+    public constructor(private readonly args: VCReaderRegistryParams = {}) {}
+
+    /**
+     * The readers that are currently registered, in the order that they were registered.
+     */
+    public get readers(): VCRegisteredReader[] {
+        return [ ...this.registered ];
+    }
+
+    /**
+     * Record a reader in this registry.
+     *
+     * @return A disposable that removes the reader from this registry when disposed.
+     */
+    public register(reader: VCRegisteredReader): Disposable {
+        this.registered.add(reader);
+        return { dispose: () => this.registered.delete(reader) };
+    }
+
+    /**
+     * Audit the configurations of every registered reader.
+     *
+     * Each reader is read from every workspace folder (see `VCReader.inspectMatrix`), both without a
+     * language and for each language in `languageIds`. A value that is the same in several of the
+     * scopes read from is only reported once.
+     *
+     * @param languageIds The languages to read for. Defaults to the languages of the open text
+     *                    documents.
+     *
+     * @throws Any error thrown by the `transform` callback of a registered reader.
+     */
+    public checkHealth(languageIds?: readonly string[]): VCHealthIssue[] {
+        const languages = languageIds 
+            ?? [ ...new Set(vscodeModule().workspace.textDocuments.map(document => document.languageId)) ];
+        const scopes    = matrixScopes(languages).scopes.flat();
+        const issues    = new Map<string, VCHealthIssue>();
+        const add       = (issue: VCHealthIssue) => {
+            const key = [ issue.kind, issue.name, issue.source, issue.folder?.uri.toString(), issue.languageId ].join('|');
+            if (!issues.has(key)) {
+                issues.set(key, issue);
+            }
+        };
+        for (const reader of this.registered) {
+            for (const { folder, languageId, scope } of scopes) {
+                const where = (source: InspectKey) => ({
+                    folder:     source.startsWith('workspaceFolder') ? folder : undefined,
+                    languageId: source.endsWith('LanguageValue') ? languageId : undefined,
+                    source
+                });
+                const detailed = reader.inspectDetailed(scope);
+                for (const source of Object.keys(detailed) as InspectKey[]) {
+                    const detail = detailed[source];
+                    if (detail.status === 'invalid') {
+                        add({ kind: 'invalid', name: reader.name, ...where(source), path: detail.path, message: detail.reason });
+                    } else if (detail.status === 'disallowed') {
+                        add({ kind: 'invalid', name: reader.name, ...where(source), path: '$', message: detail.reason });
+                    }
+                }
+                const deprName = reader.deprName;
+                if (deprName !== undefined && reader.deprInspectDetailed) {
+                    const deprDetailed = reader.deprInspectDetailed(scope);
+                    for (const source of Object.keys(deprDetailed) as InspectKey[]) {
+                        if (deprDetailed[source].status !== 'unset' && !source.startsWith('default')) {
+                            add({
+                                kind:        'deprecated',
+                                name:        deprName,
+                                replacement: reader.name,
+                                ...where(source),
+                                message:     `The configuration ${deprName} is deprecated. Please use ${reader.name} instead.`
+                            });
+                        }
+                    }
+                }
+                try {
+                    reader.readWithSource(scope);
+                } catch (error) {
+                    if (!(error instanceof VCReaderError)) {
+                        throw error;
+                    }
+                    add({ kind: 'unresolvable', name: reader.name, folder, languageId, message: error.message });
+                }
+            }
+        }
+        return [ ...issues.values() ];
+    }
+
+    /**
+     * Register a command that audits the configurations of every registered reader.
+     *
+     * When run, the command writes the issues found by `checkHealth` to an output channel, then
+     * shows them in a quick pick. Picking an issue opens the settings file that the offending value
+     * is in and selects its entry.
+     *
+     * The command should also be contributed in the package manifest of the extension, for
+     * instance with the title `Check Configuration Health`.
+     *
+     * @param command Identifier of the command.
+     *
+     * @return A disposable that unregisters the command when disposed.
+     */
+    public registerHealthCheckCommand(command: string): Disposable {
+        return vscodeModule().commands.registerCommand(command, () => this.runHealthCheck());
+    }
+
+    public dispose(): void {
+        this.registered.clear();
+        this.outputChannel?.dispose();
+        this.outputChannel = undefined;
+    }
+
+    private async runHealthCheck(): Promise<void> {
+        const issues = this.checkHealth(this.args.languageIds);
+        if (!this.outputChannel) {
+            this.outputChannel = vscodeModule().window.createOutputChannel(this.args.outputChannelName ?? 'Configuration Health');
+        }
+        this.outputChannel.clear();
+        for (const issue of issues) {
+            this.outputChannel.appendLine(`[${issue.kind}] ${issue.name} (${describeLocation(issue)}): ${issue.message}`);
+        }
+        if (issues.length === 0) {
+            await vscodeModule().window.showInformationMessage('No configuration problems found.');
+            return;
+        }
+        const items: (QuickPickItem & { issue: VCHealthIssue })[] = issues.map(issue => ({
+            label:       issue.name,
+            description: `${issue.kind} (${describeLocation(issue)})`,
+            detail:      issue.message,
+            issue
+        }));
+        const picked = await vscodeModule().window.showQuickPick(
+            items, 
+            { placeHolder: 'Select a problem to go to the offending setting' }
+        );
+        const source = picked?.issue.source;
+        if (picked && source) {
+            await revealSetting({ ...picked.issue, source });
+        }
+    }
+
+}
+
+export interface VCReaderRegistryParams {
+
+    /**
+     * Name of the output channel that the health check command writes to.
+     *
+     * Defaults to `Configuration Health`.
+     */
+    readonly outputChannelName?: string;
+
+    /**
+     * The languages that the health check command reads for. See `VCReaderRegistry.checkHealth`.
+     */
+    readonly languageIds?: readonly string[];
+
+}
+
+/**
+ * Describe where a health issue occurs, such as `workspaceFolderValue of workspace-1 for c`.
+ */
+function describeLocation(issue: VCHealthIssue): string {
+    let location = issue.source ?? 'effective value';
+    if (issue.folder) {
+        location += ` of ${issue.folder.name}`;
+    }
+    if (issue.languageId !== undefined) {
+        location += ` for ${issue.languageId}`;
+    }
+    return location;
+}
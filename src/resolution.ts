@@ -0,0 +1,236 @@
+import { ConfigurationScope } from 'vscode';
+import { InspectDetailed, InspectKey, inspectKeysByPriority } from './inspect';
+import { InvalidValueError, NoEffectiveValueError, VCInspectSnapshot } from './errors';
+import { mergeValues, MergeStrategy } from './merge';
+
+/**
+ * Policy that determines how the effective value is resolved when some scopes have invalid values.
+ *
+ *   - `fallback`:       Invalid values are skipped, so the effective value falls back to the next
+ *                       scope with a valid value. If no scope has a valid value, reading throws a
+ *                       `NoEffectiveValueError`. This is the default policy.
+ *   - `strict`:         An invalid value blocks fallback to lower priority scopes. Reading throws an
+ *                       `InvalidValueError` if the highest priority scope with a value has an invalid
+ *                       one.
+ *   - `packageDefault`: An invalid value causes the effective value to fall back straight to the
+ *                       default value declared in the package manifest, skipping all lower priority
+ *                       user defined values. If the default value is also invalid, reading throws a
+ *                       `NoEffectiveValueError`.
+ *   - `callerDefault`:  Same as `fallback`, except that `value` is used as the effective value when
+ *                       no scope has a valid value instead of throwing. `value` is used as is, and
+ *                       is not transformed.
+ *
+ * Values in scopes that are disallowed by the declared scope of a configuration (see 
+ * `VCReaderParams.declaredScope`) are always skipped, regardless of the policy.
+ */
+export type ResolutionPolicy<E> =
+    { readonly mode: 'fallback' }
+    | { readonly mode: 'strict' }
+    | { readonly mode: 'packageDefault' }
+    | { readonly mode: 'callerDefault', readonly value: E };
+
+/**
+ * Where an effective value came from.
+ *
+ * This is either the name of the scope the value was taken from, or `callerDefault` if the value is
+ * the one given by a `callerDefault` resolution policy.
+ */
+export type VCValueSource = InspectKey | 'callerDefault';
+
+/**
+ * A value that could become the effective value.
+ */
+interface Candidate {
+
+    /**
+     * The values of the configuration that the candidate is from.
+     */
+    readonly snapshot: VCInspectSnapshot;
+
+    /**
+     * The scope that the candidate is from.
+     */
+    readonly source: InspectKey;
+
+}
+
+/**
+ * Choose the candidate whose value becomes the effective value.
+ *
+ * @param candidates Candidates in order of descending priority.
+ * @param scope The scope that the candidates were read from.
+ *
+ * @return The chosen candidate and its value, which is guaranteed to be valid, or `undefined` if no 
+ *         candidate is acceptable under `policy`.
+ *
+ * @throws `InvalidValueError` if `policy` is `strict` and the highest priority candidate with a
+ *         value has an invalid value.
+ */
+function resolveCandidate<C extends Candidate>(
+    candidates: readonly C[],
+    policy:     ResolutionPolicy<unknown>,
+    scope:      ConfigurationScope | undefined
+): { candidate: C, value: unknown } | undefined {
+    for (const candidate of candidates) {
+        const detail = candidate.snapshot.inspect[candidate.source];
+        if (detail.status === 'valid') {
+            return { candidate, value: detail.value };
+        } else if (detail.status === 'invalid' && policy.mode === 'strict') {
+            throw invalidValueError(candidate, detail, scope);
+        } else if (detail.status === 'invalid' && policy.mode === 'packageDefault') {
+            return resolveCandidate(candidates.filter(isDefault), { mode: 'fallback' }, scope);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Combine the values of the candidates into the effective value.
+ * 
+ * @param candidates Candidates in order of descending priority.
+ * @param scope The scope that the candidates were read from.
+ * @param convert Callback used to convert the value of a candidate into the type that is merged.
+ * 
+ * @return The highest priority candidate that was merged and the merged value, or `undefined` if no
+ *         candidate is acceptable under `policy`.
+ * 
+ * @throws `InvalidValueError` if `policy` is `strict` and any candidate has an invalid value.
+ */
+function mergeCandidates<C extends Candidate, T>(
+    candidates: readonly C[],
+    policy:     ResolutionPolicy<unknown>,
+    scope:      ConfigurationScope | undefined,
+    strategy:   MergeStrategy<T>,
+    convert:    (candidate: C, value: unknown) => T
+): { candidate: C, value: T } | undefined {
+    const merged: { candidate: C, value: T }[] = [];
+    for (const candidate of candidates) {
+        const detail = candidate.snapshot.inspect[candidate.source];
+        if (detail.status === 'valid') {
+            merged.push({ candidate, value: convert(candidate, detail.value) });
+        } else if (detail.status === 'invalid' && policy.mode === 'strict') {
+            throw invalidValueError(candidate, detail, scope);
+        } else if (detail.status === 'invalid' && policy.mode === 'packageDefault') {
+            return mergeCandidates(candidates.filter(isDefault), { mode: 'fallback' }, scope, strategy, convert);
+        }
+    }
+    if (merged.length === 0) {
+        return undefined;
+    }
+    return {
+        candidate: merged[0].candidate,
+        value:     merged.map(({ value }) => value).reduceRight((lower, higher) => mergeValues(strategy, lower, higher))
+    };
+}
+
+function isDefault({ source }: Candidate): boolean {
+    return source === 'defaultLanguageValue' || source === 'defaultValue';
+}
+
+function invalidValueError(
+    { snapshot, source }: Candidate, 
+    detail:               { value: unknown, reason: string, path: string }, 
+    scope:                ConfigurationScope | undefined
+): InvalidValueError {
+    return new InvalidValueError(
+        snapshot.configurationName, 
+        scope, 
+        source, 
+        detail.value, 
+        detail.reason, 
+        detail.path,
+        snapshot
+    );
+}
+
+/**
+ * A configuration in a chain of configurations that were superseded by one another.
+ * 
+ * `T` is the validated type of the configuration, while `N` is that of the newest configuration in
+ * the chain.
+ * 
+ * The callbacks are declared as methods so that a generation of any validated type can be given
+ * where a generation of `unknown` validated type is expected. This is sound because the callbacks
+ * are only ever called with the validated values of their own generation.
+ * 
+ * @internal
+ */
+export interface Generation<T, E, N = T> {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    /**
+     * Get the outcomes of validating the values of the configuration.
+     */
+    inspectDetailed(scope?: ConfigurationScope): InspectDetailed<T>;
+
+    /**
+     * Callback used to transform the effective value if it comes from this configuration.
+     */
+    transform(t: T): E;
+
+    /**
+     * Callback used to convert values of this configuration into values of the newest configuration
+     * so that they can be merged. Required when merging, except for the newest configuration.
+     */
+    convert?(t: T): N;
+
+}
+
+/**
+ * Get the effective value between a chain of configurations.
+ * 
+ * For each scope, from the highest priority to the lowest, the configurations are checked in the 
+ * order they are given. So a value in a higher priority scope always beats a value in a lower 
+ * priority scope regardless of which configuration it is in, while between values in the same scope,
+ * the configuration given first wins.
+ * 
+ * @param generations The configurations, from the newest to the oldest.
+ * @param merge If specified (and not `replace`), the valid values of all the scopes are combined
+ *              with this strategy after converting them to values of the newest configuration, and
+ *              the combined value is transformed with the `transform` callback of the newest 
+ *              configuration. The returned scope and generation are then those of the highest 
+ *              priority value that was combined.
+ * 
+ * @return The transformed effective value, the scope it came from, and the index of the generation
+ *         it came from (`undefined` if it is the value of a `callerDefault` resolution policy).
+ * 
+ * @throws `NoEffectiveValueError` or `InvalidValueError` depending on the resolution policy.
+ * 
+ * @internal
+ */
+export function readGenerations<T, E>(
+    generations: readonly [ Generation<T, E>, ...Generation<unknown, E, T>[] ],
+    policy:      ResolutionPolicy<E>,
+    scope:       ConfigurationScope | undefined,
+    merge?:      MergeStrategy<T>
+): { value: E, source: VCValueSource, generation: number | undefined } {
+    const chain: readonly Generation<unknown, E, T>[] = generations;
+    const snapshots = chain.map((generation) => ({ 
+        configurationName: generation.name, 
+        inspect:           generation.inspectDetailed(scope) 
+    }));
+    const candidates = inspectKeysByPriority.flatMap(source => 
+        snapshots.map((snapshot, generation) => ({ snapshot, source, generation }))
+    );
+    const merging  = merge !== undefined && merge.mode !== 'replace';
+    const resolved = merge !== undefined && merging
+        ? mergeCandidates(candidates, policy, scope, merge, ({ generation }, value) => {
+
+            // Values of the newest configuration, which has no `convert` callback, are of type `T`
+            // since they passed its validation.
+            const older = chain[generation];
+            return older.convert ? older.convert(value) : value as T;
+        })
+        : resolveCandidate(candidates, policy, scope);
+    if (resolved) {
+        const { source, generation } = resolved.candidate;
+        return { value: chain[merging ? 0 : generation].transform(resolved.value), source, generation };
+    } else if (policy.mode === 'callerDefault') {
+        return { value: policy.value, source: 'callerDefault', generation: undefined };
+    }
+    throw new NoEffectiveValueError(chain[0].name, scope, snapshots);
+}
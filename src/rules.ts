@@ -0,0 +1,182 @@
+import { ConfigurationScope } from 'vscode';
+import { InspectDetailed, InspectKey, inspectKeysByPriority } from './inspect';
+import { readGenerations, ResolutionPolicy } from './resolution';
+import { MergeStrategy } from './merge';
+import { InvalidRuleError } from './errors';
+
+/**
+ * A constraint that involves more than one configuration of a bundle, such as `minWidth <= maxWidth`.
+ *
+ * Rules are checked against the effective validated (i.e. untransformed) values of the bundle, and
+ * are only checked when every configuration in the bundle has an effective value.
+ */
+export interface VCBundleRule<V> {
+
+    /**
+     * Child names of the configurations that the rule involves. Cannot be empty.
+     */
+    readonly keys: readonly (keyof V & string)[];
+
+    /**
+     * Callback that yields `true` if the rule is satisfied by `values`.
+     */
+    readonly check: (values: V) => boolean;
+
+    /**
+     * Human readable description of the violation, such as `minWidth must not exceed maxWidth.`.
+     */
+    readonly message: string;
+
+    /**
+     * What to do when the rule is violated.
+     *
+     *   - `report`:   The violation is reported by `VCBundleReader.readWithViolations`, and the values
+     *                 are used as is. This is the default.
+     *   - `fallback`: The values of the involved configurations that were taken from the highest
+     *                 priority scope among them are treated as invalid, so that those configurations
+     *                 fall back to their next valid scope. For instance, if a workspace value of
+     *                 `minWidth` violates a rule together with a global value of `maxWidth`, then
+     *                 `minWidth` falls back to its next valid scope. This is repeated until the rule
+     *                 is satisfied. If some configuration runs out of values, reading fails in the
+     *                 same way as when no scope has a valid value.
+     */
+    readonly onViolation?: 'report' | 'fallback';
+
+}
+
+/**
+ * A rule that was violated by the effective values of a bundle.
+ */
+export interface VCRuleViolation {
+
+    /**
+     * The `message` of the violated rule.
+     */
+    readonly message: string;
+
+    /**
+     * The configurations involved in the rule and the scopes that their values were taken from.
+     */
+    readonly configurations: readonly { readonly name: string, readonly source: InspectKey }[];
+
+}
+
+/**
+ * What is needed of a configuration to evaluate rules against it.
+ *
+ * @internal
+ */
+export interface RuleTarget {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    /**
+     * The outcomes of validating the values of the configuration.
+     */
+    detailed: InspectDetailed<unknown>;
+
+    readonly resolution: ResolutionPolicy<unknown>;
+
+    readonly merge: MergeStrategy<unknown> | undefined;
+
+}
+
+/**
+ * Evaluate rules against the effective values of a set of configurations.
+ *
+ * Rules with the `fallback` action are applied first, by marking the highest priority values that
+ * violate them as invalid in the `detailed` outcomes of `targets` until every such rule is satisfied.
+ * The remaining rules are then checked against the resulting effective values.
+ *
+ * @param section The section of the configurations.
+ * @param targets The configurations, keyed by child name. Their `detailed` outcomes are updated in
+ *                place.
+ *
+ * @return The violations of the rules with the `report` action.
+ *
+ * @throws `NoEffectiveValueError` or `InvalidValueError` if applying a `fallback` rule leaves some
+ *         configuration without an effective value.
+ *
+ * @throws `InvalidRuleError` if a violated `fallback` rule does not involve any value that can be
+ *         treated as invalid.
+ *
+ * @internal
+ */
+export function applyRules<V>(
+    section: string,
+    targets: Record<string, RuleTarget>,
+    rules:   readonly VCBundleRule<V>[],
+    scope:   ConfigurationScope | undefined
+): VCRuleViolation[] {
+    const fallbackRules = rules.filter(rule => rule.onViolation === 'fallback');
+    const reportRules   = rules.filter(rule => rule.onViolation !== 'fallback');
+    for (;;) {
+        const effective = effectiveValues(targets, scope);
+        const violated  = effective && fallbackRules.find(rule => !rule.check(effective.values as V));
+        if (!effective || !violated) {
+            break;
+        }
+        const priority = (key: string) => inspectKeysByPriority.indexOf(effective.sources[key]);
+        const highest  = Math.min(...violated.keys.map(priority));
+        const rejected = violated.keys.filter(key => priority(key) === highest);
+
+        // Without this, the same rule would be found violated again on every pass.
+        if (rejected.length === 0) {
+            throw new InvalidRuleError(section, violated.message, 'No value can be treated as invalid.');
+        }
+        for (const key of rejected) {
+            const target = targets[key];
+            const source = effective.sources[key];
+            const detail = target.detailed[source];
+            target.detailed = {
+                ...target.detailed,
+                [source]: {
+                    status: 'invalid',
+                    value:  detail.status === 'unset' ? undefined : detail.value,
+                    reason: violated.message,
+                    path:   '$'
+                }
+            };
+        }
+    }
+    const effective = effectiveValues(targets, scope);
+    if (!effective) {
+        return [];
+    }
+    return reportRules.filter(rule => !rule.check(effective.values as V)).map(rule => ({
+        message:        rule.message,
+        configurations: rule.keys.map(key => ({ name: targets[key].name, source: effective.sources[key] }))
+    }));
+}
+
+/**
+ * Get the effective validated values of a set of configurations.
+ *
+ * @return `undefined` if some configuration does not have an effective validated value, which is
+ *         the case when it would fall back to the value of a `callerDefault` resolution policy.
+ */
+function effectiveValues(
+    targets: Record<string, RuleTarget>,
+    scope:   ConfigurationScope | undefined
+): { values: Record<string, unknown>, sources: Record<string, InspectKey> } | undefined {
+    const values:  Record<string, unknown>    = {};
+    const sources: Record<string, InspectKey> = {};
+    for (const key of Object.keys(targets)) {
+        const { name, detailed, resolution, merge } = targets[key];
+        const { value, source } = readGenerations(
+            [ { name, inspectDetailed: () => detailed, transform: (t) => t } ],
+            resolution,
+            scope,
+            merge
+        );
+        if (source === 'callerDefault') {
+            return undefined;
+        }
+        values[key]  = value;
+        sources[key] = source;
+    }
+    return { values, sources };
+}
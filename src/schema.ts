@@ -0,0 +1,402 @@
+/**
+ * Validators derived from the JSON schemas of configurations.
+ *
+ * Extensions declare the schemas of their configurations in the `contributes.configuration`
+ * section of their package manifests. The functions in this module build validators from those
+ * schemas so that the validation rules do not have to be duplicated in code.
+ *
+ * Only a subset of JSON schema is supported. Schemas that use unsupported keywords are rejected
+ * with an error that lists the offending keywords, so that a validator never silently accepts
+ * values that the schema would not.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { VCReader, VCReaderParams } from './vc-reader';
+import { ConfigurationNotInManifestError, UnsupportedSchemaError } from './errors';
+import { childPath, plural, ValidationFailure, Validator, withExplanation } from './validation';
+import { isDeclaredScope, VCDeclaredScope } from './declared-scope';
+
+/**
+ * A JSON schema, as found in the `contributes.configuration` section of a package manifest.
+ */
+export type JsonSchema = { readonly [keyword: string]: unknown };
+
+/**
+ * Keywords that affect validation and are supported.
+ */
+const supportedKeywords = new Set([
+    'type', 'enum', 'const', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+    'multipleOf', 'minLength', 'maxLength', 'pattern', 'items', 'minItems', 'maxItems',
+    'uniqueItems', 'properties', 'required', 'additionalProperties', 'anyOf', 'oneOf', 'allOf'
+]);
+
+/**
+ * The values of the `type` keyword that are supported.
+ */
+const supportedTypes = new Set([ 'null', 'boolean', 'object', 'array', 'number', 'integer', 'string' ]);
+
+/**
+ * Keywords that do not affect validation and are thus ignored.
+ */
+const annotationKeywords = new Set([
+    '$comment', 'title', 'description', 'markdownDescription', 'default', 'examples', 'scope',
+    'order', 'tags', 'deprecationMessage', 'markdownDeprecationMessage', 'enumDescriptions',
+    'markdownEnumDescriptions', 'enumItemLabels', 'editPresentation', 'errorMessage',
+    'patternErrorMessage', 'doNotSuggest', 'ignoreSync', 'included', 'restricted'
+]);
+
+type Explain = (t: unknown) => ValidationFailure | undefined;
+
+/**
+ * Find the JSON schema of a configuration in a package manifest.
+ *
+ * @param manifest The package manifest of an extension, such as the `packageJSON` property of a
+ *                 vscode `Extension`.
+ * @param name Full name of the configuration.
+ *
+ * @throws `ConfigurationNotInManifestError` if the manifest does not contribute a configuration 
+ *         named `name`.
+ */
+export function findConfigurationSchema(manifest: unknown, name: string): JsonSchema {
+    const contributes   = isObject(manifest) ? manifest.contributes : undefined;
+    const configuration = isObject(contributes) ? contributes.configuration : undefined;
+    const sections      = Array.isArray(configuration) ? configuration : [ configuration ];
+    for (const section of sections) {
+        const properties = isObject(section) ? section.properties : undefined;
+        if (isObject(properties) && isObject(properties[name])) {
+            return properties[name] as JsonSchema;
+        }
+    }
+    throw new ConfigurationNotInManifestError(name);
+}
+
+/**
+ * Find the scope that a configuration is declared with in a package manifest.
+ *
+ * @param manifest The package manifest, such as the `packageJSON` property of a vscode `Extension`.
+ * @param name Full name of the configuration.
+ *
+ * @return The declared scope, or `undefined` if the configuration does not declare one (in which
+ *         case vscode treats it as having the `window` scope).
+ *
+ * @throws `ConfigurationNotInManifestError` if the configuration cannot be found in the manifest.
+ */
+export function findDeclaredScope(manifest: unknown, name: string): VCDeclaredScope | undefined {
+    const scope = findConfigurationSchema(manifest, name).scope;
+    return isDeclaredScope(scope) ? scope : undefined;
+}
+
+/**
+ * Build a validator from a JSON schema.
+ *
+ * The following keywords are supported:
+ *
+ *   - `type` (including `integer` and arrays of types)
+ *   - `enum` and `const`
+ *   - `minimum`, `maximum`, `exclusiveMinimum`, `exclusiveMaximum` and `multipleOf`
+ *   - `minLength`, `maxLength` and `pattern`
+ *   - `items` (a single schema or an array of schemas), `minItems`, `maxItems` and `uniqueItems`
+ *   - `properties`, `required` and `additionalProperties`
+ *   - `anyOf`, `oneOf` and `allOf`
+ *
+ * Keywords that do not affect validation, such as `description` and `scope`, are ignored.
+ *
+ * @param name Full name of the configuration that the schema is for, which errors are reported for.
+ *
+ * @throws `UnsupportedSchemaError` if the schema contains any other keyword, a `type` that is not 
+ *         one of the JSON types, or a `pattern` that is not a valid regular expression.
+ */
+export function schemaValidator<T = unknown>(schema: JsonSchema, name: string): Validator<T> {
+    const unsupported: string[] = [];
+    const explain = compile(schema, '#', unsupported);
+    if (unsupported.length > 0) {
+        throw new UnsupportedSchemaError(name, unsupported, `the schema of ${name}`);
+    }
+    return withExplanation((t: unknown): t is T => explain(t) === undefined, explain);
+}
+
+/**
+ * Register a validating reader whose validation rules come from the JSON schema that the package
+ * manifest declares for the configuration.
+ *
+ * See `schemaValidator` for the subset of JSON schema that is supported. Unless `declaredScope` is
+ * specified, the reader also honours the scope that the manifest declares for the configuration.
+ *
+ * @throws `ConfigurationNotInManifestError` if the configuration cannot be found in the manifest.
+ * @throws `UnsupportedSchemaError` if the schema of the configuration contains unsupported keywords.
+ * @throws `ConfigurationNameEmptyError` if `name` is empty.
+ */
+export function createSchemaReader<T, E>(params: SchemaReaderParams<T, E>): VCReader<T, E> {
+    const schema = findConfigurationSchema(params.manifest, params.name);
+    return new VCReader({
+        ...params,
+        validate:      schemaValidator<T>(schema, params.name),
+        declaredScope: params.declaredScope ?? (isDeclaredScope(schema.scope) ? schema.scope : undefined)
+    });
+}
+
+export interface SchemaReaderParams<T, E> extends Omit<VCReaderParams<T, E>, 'validate'> {
+
+    /**
+     * The package manifest of the extension that contributes the configuration, such as the
+     * `packageJSON` property of a vscode `Extension`.
+     */
+    readonly manifest: unknown;
+
+}
+
+function isObject(t: unknown): t is { [key: string]: unknown } {
+    return typeof t === 'object' && t !== null && !Array.isArray(t);
+}
+
+function jsonTypeOf(t: unknown): string {
+    if (t === null) {
+        return 'null';
+    } else if (Array.isArray(t)) {
+        return 'array';
+    } else if (typeof t === 'number' && Number.isInteger(t)) {
+        return 'integer';
+    } else {
+        return typeof t;
+    }
+}
+
+/**
+ * Compile a schema into a function that explains why values are invalid.
+ *
+ * @param location JSON pointer to the schema, used to report unsupported keywords.
+ * @param unsupported Array that unsupported keywords are appended to.
+ */
+function compile(schema: unknown, location: string, unsupported: string[]): Explain {
+    if (schema === true || (isObject(schema) && Object.keys(schema).length === 0)) {
+        return () => undefined;
+    } else if (schema === false) {
+        return () => ({ reason: 'No value is allowed here.', path: '$' });
+    } else if (!isObject(schema)) {
+        unsupported.push(`'${JSON.stringify(schema)}' at '${location}' (not a schema)`);
+        return () => undefined;
+    }
+
+    const checks: Explain[] = [];
+    for (const keyword of Object.keys(schema)) {
+        if (!supportedKeywords.has(keyword) && !annotationKeywords.has(keyword)) {
+            unsupported.push(`'${keyword}' at '${location}'`);
+        }
+    }
+
+    const { type } = schema;
+    if (type !== undefined) {
+        const types = Array.isArray(type) ? type : [ type ];
+        for (const unknownType of types.filter(type => typeof type !== 'string' || !supportedTypes.has(type))) {
+            unsupported.push(`'type' at '${location}' (unknown type ${JSON.stringify(unknownType)})`);
+        }
+        checks.push((t) => {
+            const actual = jsonTypeOf(t);
+            if (types.includes(actual) || (actual === 'integer' && types.includes('number'))) {
+                return undefined;
+            }
+            return { reason: `Expected a value of type ${types.join(' or ')} but got ${actual}.`, path: '$' };
+        });
+    }
+    if (Array.isArray(schema.enum)) {
+        const values = schema.enum;
+        checks.push((t) => values.some(value => isDeepStrictEqual(value, t))
+            ? undefined
+            : { reason: `Expected one of ${values.map(value => JSON.stringify(value)).join(', ')}.`, path: '$' }
+        );
+    }
+    if ('const' in schema) {
+        const value = schema.const;
+        checks.push((t) => isDeepStrictEqual(value, t)
+            ? undefined
+            : { reason: `Expected ${JSON.stringify(value)}.`, path: '$' }
+        );
+    }
+    checks.push(...compileNumberKeywords(schema));
+    checks.push(...compileStringKeywords(schema, location, unsupported));
+    checks.push(...compileArrayKeywords(schema, location, unsupported));
+    checks.push(...compileObjectKeywords(schema, location, unsupported));
+    checks.push(...compileCompositionKeywords(schema, location, unsupported));
+    return (t) => {
+        for (const check of checks) {
+            const failure = check(t);
+            if (failure) {
+                return failure;
+            }
+        }
+        return undefined;
+    };
+}
+
+/**
+ * Wrap a check so that it only applies to values for which `applies` is `true`, since in JSON schema
+ * type specific keywords ignore values of other types.
+ */
+function onlyFor<U>(applies: (t: unknown) => t is U, check: (t: U) => ValidationFailure | undefined): Explain {
+    return (t) => applies(t) ? check(t) : undefined;
+}
+
+const isNumber = (t: unknown): t is number    => typeof t === 'number';
+const isString = (t: unknown): t is string    => typeof t === 'string';
+const isArray  = (t: unknown): t is unknown[] => Array.isArray(t);
+
+function compileNumberKeywords(schema: JsonSchema): Explain[] {
+    const checks: Explain[] = [];
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+    if (typeof minimum === 'number') {
+        checks.push(onlyFor(isNumber, t => t >= minimum ? undefined : { reason: `Expected a number no less than ${minimum}.`, path: '$' }));
+    }
+    if (typeof maximum === 'number') {
+        checks.push(onlyFor(isNumber, t => t <= maximum ? undefined : { reason: `Expected a number no greater than ${maximum}.`, path: '$' }));
+    }
+    if (typeof exclusiveMinimum === 'number') {
+        checks.push(onlyFor(isNumber, t => t > exclusiveMinimum ? undefined : { reason: `Expected a number greater than ${exclusiveMinimum}.`, path: '$' }));
+    }
+    if (typeof exclusiveMaximum === 'number') {
+        checks.push(onlyFor(isNumber, t => t < exclusiveMaximum ? undefined : { reason: `Expected a number less than ${exclusiveMaximum}.`, path: '$' }));
+    }
+    if (typeof multipleOf === 'number') {
+        checks.push(onlyFor(isNumber, t => Number.isInteger(t / multipleOf) ? undefined : { reason: `Expected a multiple of ${multipleOf}.`, path: '$' }));
+    }
+    return checks;
+}
+
+function compileStringKeywords(schema: JsonSchema, location: string, unsupported: string[]): Explain[] {
+    const checks: Explain[] = [];
+    const { minLength, maxLength, pattern } = schema;
+    if (typeof minLength === 'number') {
+        checks.push(onlyFor(isString, t => t.length >= minLength ? undefined : { reason: `Expected a string with at least ${plural(minLength, 'character')}.`, path: '$' }));
+    }
+    if (typeof maxLength === 'number') {
+        checks.push(onlyFor(isString, t => t.length <= maxLength ? undefined : { reason: `Expected a string with at most ${plural(maxLength, 'character')}.`, path: '$' }));
+    }
+    if (typeof pattern === 'string') {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(pattern, 'u');
+        } catch (error) {
+            unsupported.push(`'pattern' at '${location}' (${error instanceof SyntaxError ? error.message : 'invalid regular expression'})`);
+            return checks;
+        }
+        checks.push(onlyFor(isString, t => regex.test(t) ? undefined : { reason: `Expected a string matching /${pattern}/.`, path: '$' }));
+    }
+    return checks;
+}
+
+function compileArrayKeywords(schema: JsonSchema, location: string, unsupported: string[]): Explain[] {
+    const checks: Explain[] = [];
+    const { items, minItems, maxItems, uniqueItems } = schema;
+    if (Array.isArray(items)) {
+        const itemChecks = items.map((item, i) => compile(item, `${location}/items/${i}`, unsupported));
+        checks.push(onlyFor(isArray, t => firstChildFailure(itemChecks.slice(0, t.length).map((check, i) => [ i, check(t[i]) ]))));
+    } else if (items !== undefined) {
+        const itemCheck = compile(items, `${location}/items`, unsupported);
+        checks.push(onlyFor(isArray, t => firstChildFailure(t.map((item, i) => [ i, itemCheck(item) ]))));
+    }
+    if (typeof minItems === 'number') {
+        checks.push(onlyFor(isArray, t => t.length >= minItems ? undefined : { reason: `Expected an array with at least ${plural(minItems, 'element')}.`, path: '$' }));
+    }
+    if (typeof maxItems === 'number') {
+        checks.push(onlyFor(isArray, t => t.length <= maxItems ? undefined : { reason: `Expected an array with at most ${plural(maxItems, 'element')}.`, path: '$' }));
+    }
+    if (uniqueItems === true) {
+        checks.push(onlyFor(isArray, t => {
+            for (let i = 1; i < t.length; ++i) {
+                const j = t.slice(0, i).findIndex(other => isDeepStrictEqual(other, t[i]));
+                if (j !== -1) {
+                    return { reason: `Duplicate of the element at index ${j}.`, path: childPath(i) };
+                }
+            }
+            return undefined;
+        }));
+    }
+    return checks;
+}
+
+function compileObjectKeywords(schema: JsonSchema, location: string, unsupported: string[]): Explain[] {
+    const checks: Explain[] = [];
+    const { properties, required, additionalProperties } = schema;
+    const propertyChecks = new Map<string, Explain>();
+    if (isObject(properties)) {
+        for (const key of Object.keys(properties)) {
+            propertyChecks.set(key, compile(properties[key], `${location}/properties/${key}`, unsupported));
+        }
+        checks.push(onlyFor(isObject, t => firstChildFailure(
+            [ ...propertyChecks ].filter(([ key ]) => t[key] !== undefined).map(([ key, check ]) => [ key, check(t[key]) ])
+        )));
+    }
+    if (Array.isArray(required)) {
+        checks.push(onlyFor(isObject, t => {
+            const missing = required.find(key => t[key] === undefined);
+            return missing === undefined ? undefined : { reason: `Missing required property '${missing}'.`, path: childPath(missing) };
+        }));
+    }
+    if (additionalProperties !== undefined) {
+        const additionalCheck = compile(additionalProperties, `${location}/additionalProperties`, unsupported);
+        checks.push(onlyFor(isObject, t => {
+            const additional = Object.keys(t).filter(key => !propertyChecks.has(key));
+            if (additionalProperties === false && additional.length > 0) {
+                return { reason: `Unexpected property '${additional[0]}'.`, path: childPath(additional[0]) };
+            }
+            return firstChildFailure(additional.map(key => [ key, additionalCheck(t[key]) ]));
+        }));
+    }
+    return checks;
+}
+
+function compileCompositionKeywords(schema: JsonSchema, location: string, unsupported: string[]): Explain[] {
+    const checks: Explain[] = [];
+    const compileAll = (keyword: string, schemas: unknown[]) => {
+        return schemas.map((schema, i) => compile(schema, `${location}/${keyword}/${i}`, unsupported));
+    };
+    if (Array.isArray(schema.allOf)) {
+        const allOf = compileAll('allOf', schema.allOf);
+        checks.push(t => allOf.map(check => check(t)).find(failure => failure !== undefined));
+    }
+    if (Array.isArray(schema.anyOf)) {
+        const anyOf = compileAll('anyOf', schema.anyOf);
+        checks.push(t => {
+            const failures = anyOf.map(check => check(t));
+            return failures.some(failure => failure === undefined) ? undefined : deepestFailure(failures);
+        });
+    }
+    if (Array.isArray(schema.oneOf)) {
+        const oneOf = compileAll('oneOf', schema.oneOf);
+        checks.push(t => {
+            const failures = oneOf.map(check => check(t));
+            const matches  = failures.filter(failure => failure === undefined).length;
+            if (matches === 1) {
+                return undefined;
+            } else if (matches > 1) {
+                return { reason: 'Expected a value that matches exactly one alternative but it matches several.', path: '$' };
+            } else {
+                return deepestFailure(failures);
+            }
+        });
+    }
+    return checks;
+}
+
+/**
+ * Get the first failure of the children of a value, with its path adjusted to be relative to the
+ * value.
+ */
+function firstChildFailure(results: [ string | number, ValidationFailure | undefined ][]): ValidationFailure | undefined {
+    for (const [ key, failure ] of results) {
+        if (failure) {
+            return { reason: failure.reason, path: childPath(key, failure.path) };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Get the failure that got deepest into the value, which is the most likely to be the alternative
+ * that the user intended.
+ */
+function deepestFailure(failures: (ValidationFailure | undefined)[]): ValidationFailure {
+    return failures.reduce<ValidationFailure | undefined>(
+        (deepest, failure) => failure && (!deepest || failure.path.length > deepest.path.length) ? failure : deepest,
+        undefined
+    ) ?? { reason: 'No alternatives to validate against.', path: '$' };
+}
@@ -0,0 +1,109 @@
+import { ConfigurationScope, Uri } from 'vscode';
+import { defaultSource, vscodeModule, VCConfigurationSource } from './source';
+
+/**
+ * Get the resource `Uri` of a configuration scope, if it has one.
+ *
+ * @internal
+ */
+export function scopeUri(scope?: ConfigurationScope): Uri | undefined {
+    if (scope === undefined || scope === null) {
+        return undefined;
+    } else if (isUri(scope)) {
+        return scope;
+    } else {
+        return scope.uri;
+    }
+}
+
+/**
+ * Whether a configuration scope is a `Uri`.
+ *
+ * This is checked structurally rather than with `instanceof`, since `Uri`s created outside of vscode
+ * (see `VCMemoryConfiguration`) are not instances of vscode's `Uri` class.
+ */
+function isUri(scope: ConfigurationScope): scope is Uri {
+    return 'scheme' in scope && 'fsPath' in scope;
+}
+
+/**
+ * Get the language identifier of a configuration scope, if it has one.
+ *
+ * @internal
+ */
+export function scopeLanguageId(scope?: ConfigurationScope): string | undefined {
+    if (scope === undefined || scope === null || isUri(scope)) {
+        return undefined;
+    } else if ('languageId' in scope) {
+        return scope.languageId;
+    } else {
+        return undefined;
+    }
+}
+
+/**
+ * Get a key that identifies the perspective from which a configuration scope reads values.
+ *
+ * Two scopes yield the same key if vscode resolves configuration values for them in the same way,
+ * which is the case when they are within the same workspace folder and have the same language. For
+ * instance, two text documents of the same language in the same workspace folder share a key.
+ *
+ * The default scope (i.e. when `scope` is `undefined`) has its own key since it is not clear how
+ * vscode determines it.
+ *
+ * @param source Where the workspace folder of `scope` is looked up.
+ *
+ * @internal
+ */
+export function scopeKey(
+    scope?: ConfigurationScope, 
+    source: Pick<VCConfigurationSource, 'getWorkspaceFolder'> = defaultSource()
+): string {
+    if (scope === undefined || scope === null) {
+        return 'default';
+    }
+    const uri        = scopeUri(scope);
+    const folder     = uri ? source.getWorkspaceFolder(uri) : undefined;
+    const languageId = scopeLanguageId(scope);
+    return `folder:${folder ? folder.uri.toString() : ''}|language:${languageId ?? ''}`;
+}
+
+/**
+ * Something that a language aware configuration scope can be built from.
+ *
+ *   - A `TextDocument`, or any object with a `languageId` and an optional resource `uri`.
+ *   - `activeEditor`, for the document in the active text editor.
+ */
+export type VCScopeTarget = { readonly uri?: Uri, readonly languageId: string } | 'activeEditor';
+
+/**
+ * Build a configuration scope that language specific values apply to.
+ *
+ * @return A scope with both the resource and the language of `target`. If `target` is 
+ *         `activeEditor` and there is no active text editor, `undefined` (i.e. the default scope) is
+ *         returned.
+ */
+export function toConfigurationScope(target: VCScopeTarget): ConfigurationScope | undefined {
+    if (target === 'activeEditor') {
+        const document = vscodeModule().window.activeTextEditor?.document;
+        return document ? { uri: document.uri, languageId: document.languageId } : undefined;
+    }
+    return { uri: target.uri, languageId: target.languageId };
+}
+
+/**
+ * Read the effective value of a configuration for each of a list of languages.
+ *
+ * @param read Callback that reads the effective value from a scope.
+ * @param uri Resource whose workspace folder to read from. If not specified, values are read as if
+ *            from outside of any workspace folder.
+ *
+ * @internal
+ */
+export function readForLanguages<E>(
+    read:        (scope: ConfigurationScope) => E,
+    languageIds: readonly string[],
+    uri:         Uri | undefined
+): Map<string, E> {
+    return new Map(languageIds.map(languageId => [ languageId, read({ uri, languageId }) ]));
+}
@@ -0,0 +1,192 @@
+import { Range, TextDocument, Uri, WorkspaceFolder } from 'vscode';
+import { InspectKey } from './inspect';
+import { findJsonValue, JsonPathSegment } from './jsonc';
+import { parsePath } from './validation';
+import { vscodeModule } from './source';
+
+/**
+ * A value of a configuration in one of the settings files.
+ *
+ * @internal
+ */
+export interface SettingValue {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    /**
+     * The `inspect` scope that the value is in.
+     */
+    readonly source: InspectKey;
+
+    /**
+     * The workspace folder that the value is in. Only used for workspace folder values.
+     */
+    readonly folder: WorkspaceFolder | undefined;
+
+    /**
+     * The language that the value is specific to. Only used for language specific values.
+     */
+    readonly languageId: string | undefined;
+
+    /**
+     * JSON path to the part of the value of interest (see `ValidationFailure.path`).
+     *
+     * Defaults to `$`, the value as a whole.
+     */
+    readonly path?: string;
+
+}
+
+/**
+ * Open the settings file that a value of a configuration is in, and select the value.
+ *
+ * If the value cannot be found in the settings file, the settings file is opened without selecting
+ * anything. Nothing is opened for default values, since they are not in any settings file.
+ *
+ * @internal
+ */
+export async function revealSetting(value: SettingValue): Promise<void> {
+    let document: TextDocument | undefined;
+    if (value.source === 'globalValue' || value.source === 'globalLanguageValue') {
+
+        // The location of the user settings file is not exposed by vscode's API.
+        await vscodeModule().commands.executeCommand('workbench.action.openSettingsJson');
+        document = vscodeModule().window.activeTextEditor?.document;
+    } else {
+        const uri = settingsFileUri(value.source, value.folder, undefined);
+        document  = uri ? await vscodeModule().workspace.openTextDocument(uri) : undefined;
+    }
+    if (!document) {
+        return;
+    }
+    const editor = await vscodeModule().window.showTextDocument(document);
+    const range  = findSetting(document, value);
+    if (range) {
+        editor.selection = new (vscodeModule().Selection)(range.start, range.end);
+        editor.revealRange(range, vscodeModule().TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+}
+
+/**
+ * Get the settings file that a value of a configuration is in.
+ *
+ * @param userSettings The user settings file, which is used for global values.
+ *
+ * @return `undefined` for default values, for global values if `userSettings` is not specified, or
+ *         if there is no such settings file.
+ *
+ * @internal
+ */
+export function settingsFileUri(
+    source:       InspectKey,
+    folder:       WorkspaceFolder | undefined,
+    userSettings: Uri | undefined
+): Uri | undefined {
+    switch (source) {
+        case 'globalValue':
+        case 'globalLanguageValue':
+            return userSettings;
+        case 'workspaceValue':
+        case 'workspaceLanguageValue': {
+            const workspaceFile = savedWorkspaceFile();
+            if (workspaceFile) {
+                return workspaceFile;
+            }
+            const first = vscodeModule().workspace.workspaceFolders?.[0];
+            return first ? vscodeModule().Uri.joinPath(first.uri, '.vscode', 'settings.json') : undefined;
+        }
+        case 'workspaceFolderValue':
+        case 'workspaceFolderLanguageValue':
+            return folder ? vscodeModule().Uri.joinPath(folder.uri, '.vscode', 'settings.json') : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Find a value of a configuration in the settings file that it is in.
+ *
+ * The settings file is parsed, so that only an entry in the right place matches. For instance, a
+ * language specific value is only found within the `[languageId]` block of its language. If the
+ * part of the value that `path` points to cannot be found, the value as a whole is.
+ *
+ * @param document The settings file that the value is in (see `settingsFileUri`).
+ *
+ * @return The range of the value, or `undefined` if the value cannot be found.
+ *
+ * @internal
+ */
+export function findSetting(document: TextDocument, value: SettingValue): Range | undefined {
+    const prefix   = entryPath(document, value);
+    const location = findJsonValue(document.getText(), [ ...prefix, ...parsePath(value.path ?? '$') ?? [] ]);
+    if (!location || location.depth < prefix.length) {
+        return undefined;
+    }
+    return toRange(document, location);
+}
+
+/**
+ * Find the entry of a value of a configuration in the settings file that it is in.
+ *
+ * Unlike `findSetting`, this ignores `path`.
+ *
+ * @param document The settings file that the value is in (see `settingsFileUri`).
+ *
+ * @return The range of the value as a whole and the range of the entry (from the start of the key
+ *         to the end of the value), or `undefined` if the entry cannot be found.
+ *
+ * @internal
+ */
+export function findSettingEntry(document: TextDocument, value: SettingValue): { value: Range, entry: Range } | undefined {
+    const path     = entryPath(document, value);
+    const location = findJsonValue(document.getText(), path);
+    if (!location?.member || location.depth < path.length) {
+        return undefined;
+    }
+    return { value: toRange(document, location), entry: toRange(document, location.member) };
+}
+
+/**
+ * Get the path to the entry of a value of a configuration in a settings file.
+ */
+function entryPath(document: TextDocument, value: SettingValue): JsonPathSegment[] {
+    const path: JsonPathSegment[] = [];
+    if (value.source.startsWith('workspace')
+        && !value.source.startsWith('workspaceFolder')
+        && document.uri.toString() === savedWorkspaceFile()?.toString()
+    ) {
+
+        // Workspace settings are kept in the `settings` property of a workspace file.
+        path.push('settings');
+    }
+    if (value.source.endsWith('LanguageValue') && value.languageId !== undefined) {
+        path.push(languageBlock(value.languageId));
+    }
+    path.push(value.name);
+    return path;
+}
+
+function toRange(document: TextDocument, location: { offset: number, length: number }): Range {
+    const start = document.positionAt(location.offset);
+    const end   = document.positionAt(location.offset + location.length);
+    return new (vscodeModule().Range)(start, end);
+}
+
+/**
+ * Get a predicate that matches the keys of the blocks of language specific values for a language,
+ * such as `[c]` or `[c][cpp]` for `c`.
+ */
+function languageBlock(languageId: string): (key: string) => boolean {
+    return (key) => /^(\[[^\]]+\])+$/.test(key) && key.slice(1, -1).split('][').includes(languageId);
+}
+
+/**
+ * Get the workspace file of a multi-root workspace, unless it has not been saved yet.
+ */
+function savedWorkspaceFile(): Uri | undefined {
+    const workspaceFile = vscodeModule().workspace.workspaceFile;
+    return workspaceFile && workspaceFile.scheme !== 'untitled' ? workspaceFile : undefined;
+}
@@ -0,0 +1,134 @@
+import {
+    ConfigurationChangeEvent, ConfigurationScope, ConfigurationTarget, Disposable, Uri, WorkspaceFolder,
+    WorkspaceFoldersChangeEvent
+} from 'vscode';
+
+/**
+ * Where readers get configuration values from.
+ *
+ * This is the part of vscode's `workspace` namespace that the readers use, which is also what they
+ * read from by default. Readers can be given a different source through their `source` parameter,
+ * such as a `VCMemoryConfiguration` in unit tests.
+ */
+export interface VCConfigurationSource {
+
+    /**
+     * The workspace folders that are open, or `undefined` if no workspace is open.
+     */
+    readonly workspaceFolders: readonly WorkspaceFolder[] | undefined;
+
+    /**
+     * The workspace file of a multi-root workspace, or `undefined` if the workspace is not a
+     * multi-root one.
+     */
+    readonly workspaceFile: Uri | undefined;
+
+    /**
+     * Get the configurations in a section, as seen from `scope`.
+     */
+    getConfiguration(section?: string, scope?: ConfigurationScope | null): VCConfigurationSection;
+
+    /**
+     * Get the workspace folder that contains `uri`.
+     */
+    getWorkspaceFolder(uri: Uri): WorkspaceFolder | undefined;
+
+    /**
+     * Subscribe to changes in the configuration values.
+     */
+    onDidChangeConfiguration(listener: (event: ConfigurationChangeEvent) => unknown): Disposable;
+
+    /**
+     * Subscribe to changes in the workspace folders.
+     */
+    onDidChangeWorkspaceFolders(listener: (event: WorkspaceFoldersChangeEvent) => unknown): Disposable;
+
+}
+
+/**
+ * The configurations in a section, as seen from a scope.
+ *
+ * This is the part of vscode's `WorkspaceConfiguration` that the readers use.
+ */
+export interface VCConfigurationSection {
+
+    /**
+     * Get the values of a configuration in each scope. See `WorkspaceConfiguration.inspect`.
+     *
+     * @param child Child name of the configuration within the section.
+     */
+    inspect<T>(child: string): VCInspectResult<T> | undefined;
+
+    /**
+     * Write a value of a configuration. See `WorkspaceConfiguration.update`.
+     *
+     * @param child Child name of the configuration within the section.
+     */
+    update(child: string, value: unknown, target?: ConfigurationTarget | boolean | null, overrideInLanguage?: boolean): Thenable<void>;
+
+}
+
+/**
+ * The values of a configuration in each scope, as yielded by `WorkspaceConfiguration.inspect`.
+ */
+export interface VCInspectResult<T> {
+
+    readonly key: string;
+
+    readonly defaultValue?: T;
+
+    readonly globalValue?: T;
+
+    readonly workspaceValue?: T;
+
+    readonly workspaceFolderValue?: T;
+
+    readonly defaultLanguageValue?: T;
+
+    readonly globalLanguageValue?: T;
+
+    readonly workspaceLanguageValue?: T;
+
+    readonly workspaceFolderLanguageValue?: T;
+
+    readonly languageIds?: string[];
+
+}
+
+/**
+ * The members of `ConfigurationTarget`.
+ *
+ * `ConfigurationTarget` is an enum, so referring to its members requires the vscode module, which
+ * is only available when running inside vscode.
+ *
+ * @internal
+ */
+export const configurationTargets = {
+    Global:          1 as ConfigurationTarget.Global,
+    Workspace:       2 as ConfigurationTarget.Workspace,
+    WorkspaceFolder: 3 as ConfigurationTarget.WorkspaceFolder
+};
+
+/**
+ * Get the vscode module.
+ *
+ * The vscode module is only loaded when first needed, so that readers given a `source` other than
+ * vscode's can be used outside of vscode, such as in unit tests run with plain node. No module of
+ * this package may import values (as opposed to types) from `vscode` directly, since that would
+ * load the vscode module as soon as the package is loaded.
+ *
+ * @internal
+ */
+export function vscodeModule(): typeof import('vscode') {
+    return require('vscode') as typeof import('vscode');
+}
+
+/**
+ * Get the source that readers read from when no `source` is specified, which is vscode's
+ * `workspace` namespace.
+ *
+ * @internal
+ */
+export function defaultSource(): VCConfigurationSource {
+    return vscodeModule().workspace;
+}
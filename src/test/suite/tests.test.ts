@@ -1,9 +1,33 @@
+import * as fs from 'fs';
 import * as path from 'path';
 import * as assert from 'assert';
-import { workspace, TextDocument, Uri } from 'vscode';
+import { 
+    workspace, CancellationError, CancellationTokenSource, CodeActionTriggerKind, ConfigurationTarget, DiagnosticSeverity, Range, 
+    Memento, TextDocument, Uri 
+} from 'vscode';
 import { clearConfiguration, testVCReader, testVCDualReader, setConfiguration, VCReaderTestSpec, VCDualReaderTestSpec } from './utilities';
 import { VCReader } from '../../vc-reader';
 import { VCDualReader } from '../../vc-dual-reader';
+import { VCChainReader } from '../../vc-chain-reader';
+import { VCAsyncReader } from '../../vc-async-reader';
+import { VCReaderRegistry } from '../../registry';
+import { VCDiagnostics } from '../../diagnostics';
+import { VCCodeActionProvider } from '../../code-actions';
+import { findSetting } from '../../settings-file';
+import { VCBundleChangeEvent, VCBundleReader } from '../../vc-bundle-reader';
+import { VCChangeEvent } from '../../change-event';
+import { VCMigrationReport } from '../../migration';
+import { VCDeprecationEvent, VCDeprecationNotifier } from '../../deprecation';
+import { check, childPath, withExplanation } from '../../validation';
+import { 
+    anyOf, isArrayOf, isBoolean, isNumber, isObject, isOneOf, isRecordOf, isString, isTuple, optional, 
+    refine, unique 
+} from '../../validators';
+import { createSchemaReader, findConfigurationSchema, findDeclaredScope, JsonSchema, schemaValidator } from '../../schema';
+import { 
+    ConfigurationNameEmptyError, DeprConvertMissingError, InvalidRuleError, InvalidUpdateError, InvalidValueError, 
+    InverseTransformMissingError, NoEffectiveValueError, UnsupportedSchemaError 
+} from '../../errors';
 
 /** 
  * Text document in which our tests are scoped to.
@@ -1511,7 +1535,7 @@ describe('`validated-configuration-reader` Tests', function () {
                         validate, 
                         transform 
                     });
-                });
+                }, ConfigurationNameEmptyError);
             });
         
             it('Throw when name is whitespace only.', function () {
@@ -1521,7 +1545,407 @@ describe('`validated-configuration-reader` Tests', function () {
                         validate, 
                         transform 
                     });
+                }, ConfigurationNameEmptyError);
+            });
+
+        });
+
+        describe('# onDidChange', function () {
+
+            it('Fire only when the effective value changes.', async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+                const reader = new VCReader({ name: goodDefaultName, validate, transform });
+                const events: VCChangeEvent<string>[] = [];
+                const disposable = reader.onDidChange(event => events.push(event), await scope);
+
+                // Setting a bad value does not change the effective value.
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  'cat',
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
                 });
+                assert.deepStrictEqual(events, []);
+
+                // Setting a good value does.
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  undefined,
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         [ '()' ],
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                assert.deepStrictEqual(events, [
+                    { previous: transform(expectedGoodDefaultValue), current: '()' }
+                ]);
+
+                // No more events after disposal.
+                disposable.dispose();
+                await clearConfiguration(goodDefaultName, await scope);
+                assert.strictEqual(events.length, 1);
+            });
+
+        });
+
+        describe('# Caching', function () {
+
+            it('Memoize values until the configuration changes.', async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, cache: true });
+                assert.deepStrictEqual(reader.read(await scope), transform(expectedGoodDefaultValue));
+                assert.deepStrictEqual(reader.read(await scope), transform(expectedGoodDefaultValue));
+                assert.deepStrictEqual(reader.cacheStats, { hits: 1, misses: 1, invalidations: 0, size: 1 });
+
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  [ '[]' ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                assert.deepStrictEqual(reader.read(await scope), '[]');
+                assert.deepStrictEqual(reader.cacheStats, { hits: 1, misses: 2, invalidations: 1, size: 1 });
+
+                reader.dispose();
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+            it('Do not cache the default scope or after being disposed.', async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, cache: true });
+                reader.read();
+                reader.read();
+                assert.deepStrictEqual(reader.cacheStats, { hits: 0, misses: 2, invalidations: 0, size: 0 });
+
+                reader.dispose();
+                reader.read(await scope);
+                reader.read(await scope);
+                assert.deepStrictEqual(reader.cacheStats, { hits: 0, misses: 4, invalidations: 0, size: 0 });
+            });
+
+        });
+
+        describe('# inspectDetailed', function () {
+
+            it('Distinguish unset, valid and invalid values.', async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  'cat',
+                    workspaceValue:               [ '()', '[[]]' ],
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+
+                // Use a validator that can explain which element is bad.
+                const explained = withExplanation(validate, (t: unknown) => {
+                    if (!Array.isArray(t)) {
+                        return { reason: 'Expected an array.', path: '$' };
+                    }
+                    const i = t.findIndex(pair => typeof pair !== 'string' || pair.length !== 2);
+                    return { reason: 'Expected a string of length 2.', path: childPath(i) };
+                });
+                const reader   = new VCReader({ name: goodDefaultName, validate: explained, transform });
+                const detailed = reader.inspectDetailed(await scope);
+                assert.deepStrictEqual(detailed.defaultValue, { status: 'valid', value: expectedGoodDefaultValue });
+                assert.deepStrictEqual(detailed.globalValue, {
+                    status: 'invalid', value: 'cat', reason: 'Expected an array.', path: '$'
+                });
+                assert.deepStrictEqual(detailed.workspaceValue, {
+                    status: 'invalid', value: [ '()', '[[]]' ], reason: 'Expected a string of length 2.', path: '$[1]'
+                });
+                assert.deepStrictEqual(detailed.workspaceFolderValue, { status: 'unset' });
+
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+        });
+
+        describe('# Element-wise validation', function () {
+
+            it('Drop invalid elements and keep the valid remainder.', async function () {
+                const reader = new VCReader({ name: badDefaultName, validate, transform, elementwise: true });
+                assert.deepStrictEqual(
+                    reader.inspectDetailed(await scope).defaultValue,
+                    { 
+                        status:   'valid', 
+                        value:    [ '[]', '{}', '<>' ], 
+                        rejected: [ { reason: 'Value failed validation.', path: '$[0]' } ] 
+                    }
+                );
+                assert.deepStrictEqual(reader.read(await scope), '[]{}<>');
+            });
+
+            it('Reject the whole value when not validating element-wise.', async function () {
+                const reader = new VCReader({ name: badDefaultName, validate, transform });
+                assert.deepStrictEqual(reader.inspectDetailed(await scope).defaultValue.status, 'invalid');
+            });
+
+        });
+
+        describe('# Declared scope', function () {
+
+            it('Ignore values in scopes that the declared scope does not allow.', async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  undefined,
+                    workspaceValue:               [ '()' ],
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                const validated: unknown[] = [];
+                const reader = new VCReader({ 
+                    name:          goodDefaultName, 
+                    validate:      (t: unknown): t is string[] => { validated.push(t); return validate(t); }, 
+                    transform, 
+                    declaredScope: 'application' 
+                });
+                assert.deepStrictEqual(
+                    reader.readWithSource(await scope), 
+                    { value: transform(expectedGoodDefaultValue), source: 'defaultValue' }
+                );
+                assert.deepStrictEqual(reader.inspectDetailed(await scope).workspaceValue, {
+                    status: 'disallowed',
+                    value:  [ '()' ],
+                    reason: `Values in workspaceValue are ignored for configurations declared with the 'application' scope.`
+                });
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceValue, undefined);
+
+                // Disallowed values are not even validated, so a read only validates the default value.
+                validated.length = 0;
+                reader.read(await scope);
+                assert.deepStrictEqual(validated, [ expectedGoodDefaultValue ]);
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+        });
+
+        describe('# Language-aware reads', function () {
+
+            it('Read from the scope of a document or a list of languages.', async function () {
+                const document = await scope;
+                await setConfiguration(goodDefaultName, document, {
+                    globalValue:                  undefined,
+                    workspaceValue:               [ '()' ],
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       [ '[]' ],
+                    workspaceFolderLanguageValue: undefined
+                });
+                const reader = new VCReader({ name: goodDefaultName, validate, transform });
+                assert.deepStrictEqual(reader.readFor(document), '[]');
+                assert.deepStrictEqual(reader.readFor({ uri: document.uri, languageId: 'cpp' }), '()');
+                assert.deepStrictEqual(
+                    reader.readForLanguages([ 'c', 'cpp' ], document.uri), 
+                    new Map([ [ 'c', '[]' ], [ 'cpp', '()' ] ])
+                );
+                await clearConfiguration(goodDefaultName, document);
+            });
+
+        });
+
+        describe('# inspectMatrix', function () {
+
+            it('Resolve the configuration in every workspace folder for each language.', async function () {
+                const document = await scope;
+                await setConfiguration(goodDefaultName, document, {
+                    globalValue:                  undefined,
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         [ '()' ],
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       [ '[]' ],
+                    workspaceFolderLanguageValue: undefined
+                });
+                const reader = new VCReader({ name: goodDefaultName, validate, transform });
+                const matrix = reader.inspectMatrix([ 'c' ]);
+                assert.deepStrictEqual(matrix.folders, workspace.workspaceFolders);
+                assert.deepStrictEqual(matrix.languageIds, [ undefined, 'c' ]);
+                assert.deepStrictEqual(
+                    matrix.cells.map(row => row.map(cell => cell.effective)),
+                    [
+                        [ { value: '()', source: 'workspaceFolderValue' }, { value: '[]', source: 'workspaceLanguageValue' } ],
+                        [ { value: transform(expectedGoodDefaultValue), source: 'defaultValue' }, { value: '[]', source: 'workspaceLanguageValue' } ]
+                    ]
+                );
+                assert.deepStrictEqual(matrix.cells[0][1].inspect.workspaceFolderValue, [ '()' ]);
+                await clearConfiguration(goodDefaultName, document);
+
+                // Cells without an effective value carry the error instead.
+                const badReader = new VCReader({ name: badDefaultName, validate, transform });
+                for (const cell of badReader.inspectMatrix().cells.flat()) {
+                    assert.strictEqual(cell.effective, undefined);
+                    assert.ok(cell.error instanceof NoEffectiveValueError);
+                }
+            });
+
+        });
+
+        describe('# readWithSource', function () {
+
+            it('Report the scope that the effective value came from.', async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  [ '()' ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         [ '[]' ],
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: 'cat'
+                });
+                const reader = new VCReader({ name: goodDefaultName, validate, transform });
+                assert.deepStrictEqual(reader.readWithSource(await scope), { value: '[]', source: 'workspaceFolderValue' });
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+        });
+
+        describe('# Resolution policies', function () {
+
+            beforeEach(async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  undefined,
+                    workspaceValue:               [ '[]' ],
+                    workspaceFolderValue:         'cat',
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+            });
+
+            after(async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+            it('fallback', async function () {
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, resolution: { mode: 'fallback' } });
+                assert.deepStrictEqual(reader.readWithSource(await scope), { value: '[]', source: 'workspaceValue' });
+            });
+
+            it('strict', async function () {
+                const reader   = new VCReader({ name: goodDefaultName, validate, transform, resolution: { mode: 'strict' } });
+                const document = await scope;
+                assert.throws(
+                    () => reader.read(document), 
+                    (e: unknown) => e instanceof InvalidValueError && e.source === 'workspaceFolderValue'
+                );
+            });
+
+            it('packageDefault', async function () {
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, resolution: { mode: 'packageDefault' } });
+                assert.deepStrictEqual(
+                    reader.readWithSource(await scope), 
+                    { value: transform(expectedGoodDefaultValue), source: 'defaultValue' }
+                );
+            });
+
+            it('callerDefault', async function () {
+                const reader = new VCReader({ 
+                    name: badDefaultName, validate, transform, resolution: { mode: 'callerDefault', value: '()' } 
+                });
+                assert.deepStrictEqual(reader.readWithSource(await scope), { value: '()', source: 'callerDefault' });
+            });
+
+            it('Throw `NoEffectiveValueError` when nothing is valid.', async function () {
+                const reader   = new VCReader({ name: badDefaultName, validate, transform });
+                const document = await scope;
+                assert.throws(
+                    () => reader.read(document), 
+                    (e: unknown) => e instanceof NoEffectiveValueError 
+                        && e.configurationName === badDefaultName
+                        && e.scope === document
+                        && e.snapshots[0].inspect.defaultValue.status === 'invalid'
+                );
+            });
+
+        });
+
+        describe('# Merge strategies', function () {
+
+            before(async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  [ '(]' ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       [ 'ab' ],
+                    workspaceFolderLanguageValue: undefined
+                });
+            });
+
+            after(async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+            it('concat', async function () {
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, merge: { mode: 'concat' } });
+                assert.deepStrictEqual(
+                    reader.readWithSource(await scope), 
+                    { value: transform([ ...expectedGoodDefaultValue, '(]', 'ab' ]), source: 'workspaceLanguageValue' }
+                );
+            });
+
+            it('unionByKey', async function () {
+                const reader = new VCReader({ 
+                    name: goodDefaultName, validate, transform, merge: { mode: 'unionByKey', key: (pair) => pair[0] } 
+                });
+                assert.deepStrictEqual(
+                    reader.read(await scope), 
+                    transform([ '(]', ...expectedGoodDefaultValue.slice(1), 'ab' ])
+                );
+            });
+
+            it('Merge the deprecated configuration after converting its values.', async function () {
+                const document = await scope;
+                assert.throws(() => new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform,
+                    merge: { mode: 'concat' }
+                }), DeprConvertMissingError);
+                const reader = new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform,
+                    deprConvert: (d) => d.map(({ open, close }) => `${open}${close}`),
+                    merge: { mode: 'concat' }
+                });
+                assert.deepStrictEqual(
+                    reader.read(document), 
+                    transform([ 
+                        ...expectedGoodDeprDefaultValue.map(({ open, close }) => `${open}${close}`), 
+                        ...expectedGoodDefaultValue, 
+                        '(]', 
+                        'ab' 
+                    ])
+                );
+            });
+
+        });
+
+        describe('# update', function () {
+
+            const inverseTransform = (e: string): string[] => e.match(/.{2}/g) ?? [];
+
+            after(async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+            });
+
+            it('Write valid values.', async function () {
+                const reader = new VCReader({ name: goodDefaultName, validate, transform, inverseTransform });
+                await reader.update([ '()' ], ConfigurationTarget.WorkspaceFolder, await scope);
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceFolderValue, [ '()' ]);
+                await reader.updateEffective('[]{}', ConfigurationTarget.Global, await scope, true);
+                assert.deepStrictEqual(reader.inspect(await scope).globalLanguageValue, [ '[]', '{}' ]);
+                assert.deepStrictEqual(reader.read(await scope), '[]{}');
+            });
+
+            it('Refuse to write invalid values.', async function () {
+                const reader = new VCReader({ name: goodDefaultName, validate, transform });
+                await assert.rejects(reader.update([ '(((' ], ConfigurationTarget.Workspace, await scope), InvalidUpdateError);
+                await assert.rejects(reader.updateEffective('()', ConfigurationTarget.Workspace, await scope), InverseTransformMissingError);
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceValue, undefined);
             });
 
         });
@@ -1555,7 +1979,7 @@ describe('`validated-configuration-reader` Tests', function () {
                         deprName: 'dummy',
                         deprValidate, 
                         deprTransform });
-                });
+                }, ConfigurationNameEmptyError);
             });
 
             it(`Throw when new configuration's name is whitespace only`, function () {
@@ -1567,7 +1991,7 @@ describe('`validated-configuration-reader` Tests', function () {
                         deprName: 'dummy',
                         deprValidate, 
                         deprTransform });
-                });
+                }, ConfigurationNameEmptyError);
             });
 
             it(`Throw when deprecated configuration's name is empty.`, function () {
@@ -1579,7 +2003,7 @@ describe('`validated-configuration-reader` Tests', function () {
                         deprName: '',
                         deprValidate, 
                         deprTransform });
-                });
+                }, ConfigurationNameEmptyError);
             });
 
             it(`Throw when deprecated configuration's name is whitespace only`, function () {
@@ -1591,10 +2015,774 @@ describe('`validated-configuration-reader` Tests', function () {
                         deprName: '                   ',
                         deprValidate, 
                         deprTransform });
+                }, ConfigurationNameEmptyError);
+            });
+
+        });
+
+        describe('# readWithSource', function () {
+
+            it('Report whether the effective value came from the deprecated configuration.', async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  [ '()' ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                await setConfiguration(deprGoodDefaultName, await scope, {
+                    globalValue:                  undefined,
+                    workspaceValue:               [ { open: '[', close: ']' } ],
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                const reader = new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform
+                });
+                assert.deepStrictEqual(
+                    reader.readWithSource(await scope), 
+                    { value: '[]', source: 'workspaceValue', deprecated: true }
+                );
+                await clearConfiguration(goodDefaultName,     await scope);
+                await clearConfiguration(deprGoodDefaultName, await scope);
+            });
+
+        });
+
+        describe('# Deprecation hooks', function () {
+
+            it('Report deprecated values that are present and that are used.', async function () {
+                await setConfiguration(goodDefaultName, await scope, {
+                    globalValue:                  [ '()' ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       undefined,
+                    workspaceFolderLanguageValue: undefined
+                });
+                await setConfiguration(deprGoodDefaultName, await scope, {
+                    globalValue:                  [ { open: '[', close: ']' } ],
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         undefined,
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       [ { open: '<', close: '>' } ],
+                    workspaceFolderLanguageValue: undefined
+                });
+                const present: VCDeprecationEvent[] = [];
+                const used:    VCDeprecationEvent[] = [];
+                const reader = new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform,
+                    onDeprecatedValuePresent: (event) => present.push(event),
+                    onDeprecatedValueUsed:    (event) => used.push(event)
                 });
+                assert.deepStrictEqual(reader.read(await scope), '<>');
+                assert.deepStrictEqual(
+                    present.map(({ source, target }) => ({ source, target })), 
+                    [
+                        { source: 'workspaceLanguageValue', target: ConfigurationTarget.Workspace },
+                        { source: 'globalValue',            target: ConfigurationTarget.Global    }
+                    ]
+                );
+                assert.deepStrictEqual(
+                    used.map(({ source, target, value }) => ({ source, target, value })), 
+                    [ { source: 'workspaceLanguageValue', target: ConfigurationTarget.Workspace, value: [ { open: '<', close: '>' } ] } ]
+                );
+
+                // Not called when the effective value comes from the new configuration.
+                used.length = 0;
+                assert.deepStrictEqual(reader.read(), '()');
+                assert.deepStrictEqual(used, []);
+                await clearConfiguration(goodDefaultName,     await scope);
+                await clearConfiguration(deprGoodDefaultName, await scope);
             });
 
         });
+
+        describe('# migrate', function () {
+
+            const deprConvert = (d: { open: string, close: string }[]) => d.map(({ open, close }) => `${open}${close}`);
+
+            after(async function () {
+                await clearConfiguration(goodDefaultName,     await scope);
+                await clearConfiguration(deprGoodDefaultName, await scope);
+            });
+
+            it('Migrate deprecated values to the new configuration.', async function () {
+                await clearConfiguration(goodDefaultName, await scope);
+                await setConfiguration(deprGoodDefaultName, await scope, {
+                    globalValue:                  undefined,
+                    workspaceValue:               undefined,
+                    workspaceFolderValue:         [ { open: '(', close: ')' } ],
+                    globalLanguageValue:          undefined,
+                    workspaceLanguageValue:       [ { open: '[', close: ']' } ],
+                    workspaceFolderLanguageValue: undefined
+                });
+                const reader = new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform, deprConvert
+                });
+                const summarize = (report: VCMigrationReport) => report.entries.map(
+                    ({ target, languageId, status, newValue }) => ({ target, languageId, status, newValue })
+                );
+                const expected = [
+                    { target: ConfigurationTarget.WorkspaceFolder, languageId: undefined, status: 'migrated', newValue: [ '()' ] },
+                    { target: ConfigurationTarget.Workspace,       languageId: 'c',       status: 'migrated', newValue: [ '[]' ] }
+                ];
+
+                // A dry run does not write anything.
+                const dryRun = await reader.migrate();
+                assert.strictEqual(dryRun.dryRun, true);
+                assert.deepStrictEqual(summarize(dryRun), expected);
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceFolderValue, undefined);
+
+                const report = await reader.migrate({ dryRun: false, clearDeprecated: true });
+                assert.deepStrictEqual(summarize(report), expected);
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceFolderValue,       [ '()' ]);
+                assert.deepStrictEqual(reader.inspect(await scope).workspaceLanguageValue,     [ '[]' ]);
+                assert.deepStrictEqual(reader.deprInspect(await scope).workspaceFolderValue,   undefined);
+                assert.deepStrictEqual(reader.deprInspect(await scope).workspaceLanguageValue, undefined);
+            });
+
+            it('Refuse to migrate without a `deprConvert` callback.', async function () {
+                const reader = new VCDualReader({
+                    name: goodDefaultName, validate, transform,
+                    deprName: deprGoodDefaultName, deprValidate, deprTransform
+                });
+                await assert.rejects(reader.migrate(), DeprConvertMissingError);
+            });
+
+        });
+
+    });
+
+    describe('VCDeprecationNotifier', function () {
+
+        /**
+         * Memento that keeps its state in memory.
+         */
+        class FakeMemento implements Memento {
+
+            private readonly state = new Map<string, unknown>();
+
+            public keys(): readonly string[] {
+                return [ ...this.state.keys() ];
+            }
+
+            public get<T>(key: string): T | undefined;
+            public get<T>(key: string, defaultValue: T): T;
+            public get<T>(key: string, defaultValue?: T): T | undefined {
+                return this.state.has(key) ? this.state.get(key) as T : defaultValue;
+            }
+
+            public update(key: string, value: unknown): Thenable<void> {
+                if (value === undefined) {
+                    this.state.delete(key);
+                } else {
+                    this.state.set(key, value);
+                }
+                return Promise.resolve();
+            }
+
+        }
+
+        const event: VCDeprecationEvent = {
+            name:     goodDefaultName,
+            deprName: deprGoodDefaultName,
+            scope:    undefined,
+            source:   'globalValue',
+            target:   ConfigurationTarget.Global,
+            value:    [ { open: '(', close: ')' } ]
+        };
+
+        it('Rate limit notifications.', async function () {
+            const memento = new FakeMemento();
+            const shown: string[] = [];
+            const showMessage = (message: string) => { shown.push(message); return Promise.resolve(undefined); };
+            const migrate     = () => Promise.resolve();
+
+            // Shown at most once per session.
+            const notifier = new VCDeprecationNotifier({ memento, migrate, showMessage, interval: 0 });
+            await notifier.notify(event);
+            await notifier.notify(event);
+            assert.deepStrictEqual(shown, [ 
+                `The configuration ${deprGoodDefaultName} is deprecated. Please use ${goodDefaultName} instead.` 
+            ]);
+
+            // Not shown again in a later session until the interval has elapsed.
+            await new VCDeprecationNotifier({ memento, migrate, showMessage }).notify(event);
+            assert.strictEqual(shown.length, 1);
+            await new VCDeprecationNotifier({ memento, migrate, showMessage, interval: 0 }).notify(event);
+            assert.strictEqual(shown.length, 2);
+        });
+
+        it('Persist \'Don\'t Show Again\'.', async function () {
+            const memento = new FakeMemento();
+            let   shown   = 0;
+            const showMessage = (_: string, ...actions: string[]) => { shown++; return Promise.resolve(actions[1]); };
+            const migrate     = () => Promise.resolve();
+            await new VCDeprecationNotifier({ memento, migrate, showMessage, interval: 0 }).notify(event);
+            assert.strictEqual(shown, 1);
+
+            // The choice is kept in the memento, so it applies to later sessions.
+            const notifier = new VCDeprecationNotifier({ memento, migrate, showMessage, interval: 0 });
+            await notifier.notify(event);
+            assert.strictEqual(shown, 1);
+
+            // Until it is reset.
+            await notifier.reset(deprGoodDefaultName);
+            await notifier.notify(event);
+            assert.strictEqual(shown, 2);
+        });
+
+        it('Migrate and report migration errors.', async function () {
+            const showMessage = (_: string, ...actions: string[]) => Promise.resolve(actions[0]);
+            let   migrated    = 0;
+            await new VCDeprecationNotifier({ 
+                memento: new FakeMemento(), 
+                migrate: () => { migrated++; return Promise.resolve(); }, 
+                showMessage 
+            }).notify(event);
+            assert.strictEqual(migrated, 1);
+
+            // Errors are reported instead of rejecting.
+            const errors: unknown[] = [];
+            const failure = new Error('Cannot migrate.');
+            await new VCDeprecationNotifier({
+                memento: new FakeMemento(),
+                migrate: () => Promise.reject(failure),
+                showMessage,
+                onError: error => errors.push(error)
+            }).notify(event);
+            assert.deepStrictEqual(errors, [ failure ]);
+        });
+
+    });
+
+    describe('VCChainReader', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName,     await scope);
+            await clearConfiguration(deprGoodDefaultName, await scope);
+            await clearConfiguration(deprBadDefaultName,  await scope);
+        });
+
+        it('Read the effective value between more than two configurations.', async function () {
+            await setConfiguration(goodDefaultName, await scope, {
+                globalValue:                  [ '()' ],
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            await setConfiguration(deprGoodDefaultName, await scope, {
+                globalValue:                  [ { open: '[', close: ']' } ],
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            await setConfiguration(deprBadDefaultName, await scope, {
+                globalValue:                  undefined,
+                workspaceValue:               [ { open: '<', close: '>' } ],
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            const reader = new VCChainReader({
+                generations: [
+                    { name: goodDefaultName,     validate,               transform               },
+                    { name: deprGoodDefaultName, validate: deprValidate, transform: deprTransform },
+                    { name: deprBadDefaultName,  validate: deprValidate, transform: deprTransform }
+                ]
+            });
+            assert.deepStrictEqual(reader.names, [ goodDefaultName, deprGoodDefaultName, deprBadDefaultName ]);
+
+            // A higher priority scope wins regardless of which configuration it is in.
+            assert.deepStrictEqual(
+                reader.readWithSource(await scope), 
+                { value: '<>', source: 'workspaceValue', generation: 2 }
+            );
+
+            // Within the same scope, the newer configuration wins.
+            await clearConfiguration(deprBadDefaultName, await scope);
+            assert.deepStrictEqual(
+                reader.readWithSource(await scope), 
+                { value: '()', source: 'globalValue', generation: 0 }
+            );
+            const document = await scope;
+            assert.deepStrictEqual(reader.inspect(1, document).globalValue, [ { open: '[', close: ']' } ]);
+            assert.throws(() => reader.inspect(3, document), RangeError);
+            reader.dispose();
+        });
+
+    });
+
+    describe('VCBundleReader', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName, await scope);
+        });
+
+        it('Read several configurations at once.', async function () {
+            await clearConfiguration(goodDefaultName,     await scope);
+            await clearConfiguration(deprGoodDefaultName, await scope);
+            const reader = new VCBundleReader({
+                section,
+                configurations: {
+                    goodDefault:     { validate,               transform               },
+                    deprGoodDefault: { validate: deprValidate, transform: deprTransform }
+                }
+            });
+            assert.deepStrictEqual(reader.names, [ goodDefaultName, deprGoodDefaultName ]);
+            assert.deepStrictEqual(reader.read(await scope), {
+                goodDefault:     transform(expectedGoodDefaultValue),
+                deprGoodDefault: deprTransform(expectedGoodDeprDefaultValue)
+            });
+            assert.deepStrictEqual(reader.inspect('deprGoodDefault', await scope).defaultValue, expectedGoodDeprDefaultValue);
+
+            const events: VCBundleChangeEvent<{ goodDefault: string, deprGoodDefault: string }>[] = [];
+            const disposable = reader.onDidChange(event => events.push(event), await scope);
+            await setConfiguration(goodDefaultName, await scope, {
+                globalValue:                  undefined,
+                workspaceValue:               [ '()' ],
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            assert.deepStrictEqual(events, [ 
+                {
+                    previous: { goodDefault: transform(expectedGoodDefaultValue), deprGoodDefault: deprTransform(expectedGoodDeprDefaultValue) },
+                    current:  { goodDefault: '()',                                deprGoodDefault: deprTransform(expectedGoodDeprDefaultValue) },
+                    changed:  [ 'goodDefault' ]
+                }
+            ]);
+            disposable.dispose();
+        });
+
+        it('Apply rules that involve more than one configuration.', async function () {
+            await setConfiguration(goodDefaultName, await scope, {
+                globalValue:                  undefined,
+                workspaceValue:               [ '()' ],
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            const configurations = {
+                goodDefault:     { validate,               transform               },
+                deprGoodDefault: { validate: deprValidate, transform: deprTransform }
+            };
+            const rule = {
+                keys:    [ 'goodDefault', 'deprGoodDefault' ] as const,
+                check:   ({ goodDefault, deprGoodDefault }: { goodDefault: string[], deprGoodDefault: unknown[] }) => 
+                    goodDefault.length === deprGoodDefault.length,
+                message: 'Both configurations must have the same number of pairs.'
+            };
+
+            // Reported violations leave the values as they are.
+            const reporting = new VCBundleReader({ section, configurations, rules: [ rule ] });
+            assert.deepStrictEqual(reporting.readWithViolations(await scope), {
+                values: { goodDefault: '()', deprGoodDefault: deprTransform(expectedGoodDeprDefaultValue) },
+                violations: [ {
+                    message:        rule.message,
+                    configurations: [ 
+                        { name: goodDefaultName,     source: 'workspaceValue' }, 
+                        { name: deprGoodDefaultName, source: 'defaultValue'   } 
+                    ]
+                } ]
+            });
+
+            // Otherwise the value in the higher priority scope is rejected.
+            const fallingBack = new VCBundleReader({ section, configurations, rules: [ { ...rule, onViolation: 'fallback' } ] });
+            assert.deepStrictEqual(fallingBack.readWithViolations(await scope), {
+                values:     { goodDefault: transform(expectedGoodDefaultValue), deprGoodDefault: deprTransform(expectedGoodDeprDefaultValue) },
+                violations: []
+            });
+        });
+
+        it('Reject rules that do not involve any configuration.', function () {
+            const configurations = { goodDefault: { validate, transform } };
+            assert.throws(() => {
+                new VCBundleReader({ 
+                    section, 
+                    configurations, 
+                    rules: [ { keys: [], check: () => false, message: 'Never satisfied.', onViolation: 'fallback' } ] 
+                });
+            }, InvalidRuleError);
+        });
+
+    });
+
+    describe('VCAsyncReader', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName, await scope);
+        });
+
+        it('Validate values asynchronously and share concurrent reads.', async function () {
+            await setConfiguration(goodDefaultName, await scope, {
+                globalValue:                  [ '()' ],
+                workspaceValue:               [ '[]' ],
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            let calls = 0;
+            const reader = new VCAsyncReader({
+                name: goodDefaultName, 
+                validate,
+                validateAsync: async (t) => {
+                    ++calls;
+                    await new Promise(resolve => setTimeout(resolve, 10));
+                    return t.includes('[]') ? { reason: 'No square brackets allowed.', path: '$' } : true;
+                },
+                transform: async (t) => transform(t)
+            });
+            const document = await scope;
+            const [ first, second ] = await Promise.all([ 
+                reader.readWithSourceAsync(document), 
+                reader.readWithSourceAsync(document) 
+            ]);
+            assert.deepStrictEqual(first,  { value: '()', source: 'globalValue' });
+            assert.deepStrictEqual(second, { value: '()', source: 'globalValue' });
+
+            // The default, global and workspace values were each validated once.
+            assert.strictEqual(calls, 3);
+            assert.deepStrictEqual(
+                (await reader.inspectDetailedAsync(document)).workspaceValue, 
+                { status: 'invalid', value: [ '[]' ], reason: 'No square brackets allowed.', path: '$' }
+            );
+            reader.dispose();
+        });
+
+        it('Cancel reads.', async function () {
+            const reader = new VCAsyncReader({ name: goodDefaultName, validate, transform });
+            const source = new CancellationTokenSource();
+            const read   = reader.readAsync(await scope, source.token);
+            source.cancel();
+            await assert.rejects(read, CancellationError);
+            reader.dispose();
+        });
+
+    });
+
+    describe('VCReaderRegistry', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName, await scope);
+            await clearConfiguration(deprGoodDefaultName, await scope);
+        });
+
+        it('Audit the configurations of registered readers.', async function () {
+            const document = await scope;
+            await setConfiguration(goodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         'cat',
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            await setConfiguration(deprGoodDefaultName, document, {
+                globalValue:                  [ { open: '(', close: ')' } ],
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            const registry   = new VCReaderRegistry();
+            const dualReader = new VCDualReader({
+                name: goodDefaultName, validate, transform, deprName: deprGoodDefaultName, deprValidate, deprTransform, registry
+            });
+            const badReader  = new VCReader({ name: badDefaultName, validate, transform, registry });
+            assert.deepStrictEqual(registry.readers, [ dualReader, badReader ]);
+            const issues = registry.checkHealth([ 'c' ]).map(({ kind, name, folder, languageId, source }) => 
+                ({ kind, name, folder: folder?.name, languageId, source })
+            );
+            const folders = (workspace.workspaceFolders ?? []).map(folder => folder.name);
+            assert.deepStrictEqual(issues, [
+                { kind: 'invalid',    name: goodDefaultName,     folder: folders[0], languageId: undefined, source: 'workspaceFolderValue' },
+                { kind: 'deprecated', name: deprGoodDefaultName, folder: undefined,  languageId: undefined, source: 'globalValue' },
+                ...folders.flatMap(folder => [ undefined, 'c' ].map(languageId => 
+                    ({ kind: 'unresolvable', name: badDefaultName, folder, languageId, source: undefined })
+                ))
+            ]);
+
+            // Disposed readers are removed from the registry.
+            badReader.dispose();
+            assert.deepStrictEqual(registry.readers, [ dualReader ]);
+            dualReader.dispose();
+            registry.dispose();
+        });
+
+    });
+
+    describe('VCDiagnostics', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName, await scope);
+        });
+
+        it('Publish diagnostics on the invalid parts of values in settings files.', async function () {
+            const document = await scope;
+            await setConfiguration(goodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         [ '()', '(' ],
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: 'cat'
+            });
+            const registry    = new VCReaderRegistry();
+            const reader      = new VCReader({ 
+                name: goodDefaultName, validate: isArrayOf(isString({ minLength: 2 })), transform, registry 
+            });
+            const diagnostics = new VCDiagnostics({ registry, languageIds: [ 'c' ] });
+            await diagnostics.refresh();
+            const folder   = workspace.getWorkspaceFolder(document.uri);
+            const settings = await workspace.openTextDocument(Uri.joinPath(folder?.uri ?? document.uri, '.vscode', 'settings.json'));
+            const found    = diagnostics.get(settings.uri).map(({ range, message, severity, code }) => 
+                ({ text: settings.getText(range), message, severity, code })
+            );
+            assert.deepStrictEqual(found, [
+                { text: '"("',   message: 'Expected a string with at least 2 characters.', severity: DiagnosticSeverity.Error, code: goodDefaultName },
+                { text: '"cat"', message: 'Expected an array but got a string.',           severity: DiagnosticSeverity.Error, code: goodDefaultName }
+            ]);
+            diagnostics.dispose();
+            reader.dispose();
+            registry.dispose();
+        });
+
+        it('Refresh diagnostics when the configuration changes.', async function () {
+            const document = await scope;
+            await setConfiguration(goodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         'cat',
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            const registry    = new VCReaderRegistry();
+            const reader      = new VCReader({ name: goodDefaultName, validate, transform, registry });
+            const errors: unknown[] = [];
+            const diagnostics = new VCDiagnostics({ registry, onError: error => errors.push(error) });
+            await diagnostics.refresh();
+            const folder   = workspace.getWorkspaceFolder(document.uri);
+            const settings = Uri.joinPath(folder?.uri ?? document.uri, '.vscode', 'settings.json');
+            assert.strictEqual(diagnostics.get(settings).length, 1);
+
+            // Fixing the value removes its diagnostic without an explicit refresh.
+            await setConfiguration(goodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         [ '()' ],
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            for (let i = 0; i < 100 && diagnostics.get(settings).length > 0; ++i) {
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            assert.deepStrictEqual(diagnostics.get(settings), []);
+            assert.deepStrictEqual(errors, []);
+            diagnostics.dispose();
+            reader.dispose();
+            registry.dispose();
+        });
+
+        it('Locate values outside of language blocks at the top level of settings files.', async function () {
+            const settings = await workspace.openTextDocument({ language: 'jsonc', content: `{
+                "[c]": { "${goodDefaultName}": "inC" },
+                "${goodDefaultName}": "outside"
+            }` });
+            const value = { name: goodDefaultName, folder: undefined, languageId: undefined };
+            const range = findSetting(settings, { ...value, source: 'workspaceFolderValue' });
+            assert.strictEqual(range && settings.getText(range), '"outside"');
+            const languageRange = findSetting(settings, { ...value, source: 'workspaceFolderLanguageValue', languageId: 'c' });
+            assert.strictEqual(languageRange && settings.getText(languageRange), '"inC"');
+        });
+
+    });
+
+    describe('VCCodeActionProvider', function () {
+
+        after(async function () {
+            await clearConfiguration(goodDefaultName, await scope);
+            await clearConfiguration(deprGoodDefaultName, await scope);
+        });
+
+        it('Offer quick fixes for invalid and deprecated values.', async function () {
+            const document = await scope;
+            await setConfiguration(goodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         'cat',
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            await setConfiguration(deprGoodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: [ { open: '(', close: ')' } ]
+            });
+            const registry    = new VCReaderRegistry();
+            const reader      = new VCDualReader({ 
+                name: goodDefaultName, validate, transform, deprName: deprGoodDefaultName, deprValidate, deprTransform, registry,
+                deprConvert: (d) => d.map(({ open, close }) => open + close)
+            });
+            const diagnostics = new VCDiagnostics({ registry, languageIds: [ 'c' ] });
+            const provider    = new VCCodeActionProvider({ diagnostics, readers: [ reader ] });
+            await diagnostics.refresh();
+            const folder   = workspace.getWorkspaceFolder(document.uri);
+            const settings = await workspace.openTextDocument(Uri.joinPath(folder?.uri ?? document.uri, '.vscode', 'settings.json'));
+            const fixes    = (range: Range) => provider.provideCodeActions(settings, range, { 
+                diagnostics: diagnostics.get(settings.uri), 
+                only:        undefined, 
+                triggerKind: CodeActionTriggerKind.Invoke 
+            }).map(action => ({ 
+                title: action.title, 
+                edits: (action.edit?.get(settings.uri) ?? []).map(edit => edit.newText) 
+            }));
+            const [ invalid, deprecated ] = diagnostics.get(settings.uri).map(diagnostic => diagnostic.range);
+            const indent = (range: Range) => `\n${/^\s*/.exec(settings.lineAt(range.start.line).text)?.[0] ?? ''}`;
+            assert.deepStrictEqual(fixes(invalid), [
+                { title: `Remove the invalid value of ${goodDefaultName}`, edits: [ '' ] },
+                { 
+                    title: `Replace the invalid value of ${goodDefaultName} with its default value`, 
+                    edits: [ JSON.stringify(expectedGoodDefaultValue, undefined, 4).split('\n').join(indent(invalid)) ] 
+                }
+            ]);
+            assert.deepStrictEqual(fixes(deprecated), [
+                { 
+                    title: `Rewrite ${deprGoodDefaultName} into ${goodDefaultName}`, 
+                    edits: [ `${JSON.stringify(goodDefaultName)}: ${JSON.stringify([ '()' ], undefined, 4).split('\n').join(indent(deprecated))}` ] 
+                }
+            ]);
+
+            // Invalid deprecated values are not rewritten, since they cannot be converted.
+            await setConfiguration(deprGoodDefaultName, document, {
+                globalValue:                  undefined,
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: 'cat'
+            });
+            await diagnostics.refresh();
+            const invalidDeprecated = diagnostics.get(settings.uri)
+                .filter(diagnostic => diagnostic.code === deprGoodDefaultName)
+                .map(diagnostic => diagnostic.range);
+            assert.strictEqual(invalidDeprecated.length, 1);
+            assert.deepStrictEqual(fixes(invalidDeprecated[0]), []);
+            provider.dispose();
+            diagnostics.dispose();
+            reader.dispose();
+            registry.dispose();
+        });
+
+    });
+
+    describe('Validators', function () {
+
+        const pairs = isArrayOf(isObject({ open: isString({ minLength: 1 }), close: isString({ minLength: 1 }) }));
+
+        it('Accept valid values.', function () {
+            assert.ok(pairs(expectedGoodDeprDefaultValue));
+            assert.ok(isNumber({ min: 0, max: 10, integer: true })(10));
+            assert.ok(isOneOf('a', 'b')('b'));
+            assert.ok(isTuple(isString(), isBoolean())([ 'a', true ]));
+            assert.ok(isRecordOf(isNumber())({ a: 1, b: 2 }));
+            assert.ok(anyOf(isString(), isNumber())(1));
+            assert.ok(isObject({ a: optional(isString()) })({}));
+        });
+
+        it('Explain invalid values.', function () {
+            assert.deepStrictEqual(check(pairs, 'cat'), { reason: 'Expected an array but got a string.', path: '$' });
+            assert.deepStrictEqual(
+                check(pairs, [ { open: '(', close: ')' }, { open: '', close: ']' } ]), 
+                { reason: 'Expected a string with at least 1 character.', path: '$[1].open' }
+            );
+            assert.deepStrictEqual(
+                check(pairs, [ { open: '(' } ]), 
+                { reason: `Missing required property 'close'.`, path: '$[0].close' }
+            );
+            assert.deepStrictEqual(
+                check(isObject({ a: isNumber() }, { exact: true }), { a: 1, 'b c': 2 }),
+                { reason: `Unexpected property 'b c'.`, path: '$["b c"]' }
+            );
+            assert.deepStrictEqual(
+                check(unique(isArrayOf(isString())), [ 'a', 'b', 'a' ]),
+                { reason: 'Duplicate of the element at index 0.', path: '$[2]' }
+            );
+            assert.deepStrictEqual(
+                check(refine(isNumber(), n => n % 2 === 0, 'Expected an even number.'), 3),
+                { reason: 'Expected an even number.', path: '$' }
+            );
+        });
+
+    });
+
+    describe('Schema Readers', function () {
+
+        const manifest = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../../package.json'), 'utf8'));
+
+        it('Validate values with the schema from the package manifest.', async function () {
+            await setConfiguration(goodDefaultName, await scope, {
+                globalValue:                  'cat',
+                workspaceValue:               undefined,
+                workspaceFolderValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: undefined
+            });
+            const reader = createSchemaReader({ name: goodDefaultName, manifest, transform: (t: unknown) => t });
+            assert.deepStrictEqual(reader.read(await scope), expectedGoodDefaultValue);
+            assert.deepStrictEqual(reader.inspectDetailed(await scope).globalValue, {
+                status: 'invalid', value: 'cat', reason: 'Expected a value of type array but got string.', path: '$'
+            });
+            await clearConfiguration(goodDefaultName, await scope);
+        });
+
+        it('Find the declared scope of a configuration.', function () {
+            assert.strictEqual(findDeclaredScope(manifest, goodDefaultName), 'language-overridable');
+        });
+
+        it('Throw on unsupported keywords.', function () {
+            assert.throws(() => schemaValidator({ type: 'string', format: 'color-hex' }, goodDefaultName), /'format' at '#'/);
+        });
+
+        it('Throw on unknown types and invalid patterns.', function () {
+            const throwsFor = (schema: JsonSchema, unsupported: RegExp) => assert.throws(
+                () => schemaValidator(schema, goodDefaultName),
+                (error: unknown) => error instanceof UnsupportedSchemaError 
+                    && error.configurationName === goodDefaultName
+                    && unsupported.test(error.message)
+            );
+            throwsFor({ type: 'strnig' },                                   /'type' at '#' \(unknown type "strnig"\)/);
+            throwsFor({ type: 'array', items: { type: [ 'string', 1 ] } }, /'type' at '#\/items' \(unknown type 1\)/);
+            throwsFor({ type: 'string', pattern: '(' },                     /'pattern' at '#'/);
+        });
+
+        it('Throw when the configuration is not in the manifest.', function () {
+            assert.throws(() => findConfigurationSchema(manifest, `${section}.doesNotExist`));
+        });
+
     });
 
     describe('Utilities', function() {
@@ -0,0 +1,361 @@
+// Tests that run in plain node, without vscode, via the `npm run test:unit` command.
+//
+// Nothing in here may import values (as opposed to types) from `vscode`, since the vscode module
+// does not exist outside of vscode.
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { CancellationToken, ConfigurationTarget, Uri, WorkspaceFolder } from 'vscode';
+import {
+    VCAsyncReader, VCBundleChangeEvent, VCBundleReader, VCChainReader, VCChainReaderParams, VCChangeEvent, VCDualReader, 
+    VCFileConfiguration, VCLspConfiguration, VCLspConfigurationItem, VCMemoryConfiguration, VCReader, VCReaderRegistry
+} from '../../index';
+
+/**
+ * Build a `Uri` for a file path.
+ *
+ * Only the members of `Uri` that the configuration sources use are provided.
+ */
+function fileUri(fsPath: string): Uri {
+    return { scheme: 'file', fsPath, path: fsPath, toString: () => `file://${fsPath}` } as unknown as Uri;
+}
+
+/**
+ * Callback to validate the new configuration.
+ */
+const validate = (t: unknown): t is string[] => {
+    return Array.isArray(t) && t.every(pair => typeof pair === 'string' && pair.length === 2);
+};
+
+/**
+ * Callback to transform the effective value if it is from the new configuration.
+ */
+const transform = (t: string[]): string => t.join('');
+
+/**
+ * Callback to validate the deprecated configuration.
+ */
+const deprValidate = (d: unknown): d is string => typeof d === 'string';
+
+/**
+ * Callback to transform the effective value if it is from the deprecated configuration.
+ */
+const deprTransform = (d: string): string => d;
+
+const workspaceFolder = 3 as ConfigurationTarget.WorkspaceFolder;
+
+const folder: WorkspaceFolder = { uri: fileUri('/memory/folder'), name: 'folder', index: 0 };
+
+const inC = { uri: fileUri('/memory/folder/text.c'), languageId: 'c' };
+
+describe('Headless Tests', function () {
+
+    describe('Entry Point', function () {
+
+        it('Load without vscode.', function () {
+            const entryPoint = path.resolve(__dirname, '../../index.js');
+            const { status, stderr } = spawnSync(process.execPath, [ '-e', `require(${JSON.stringify(entryPoint)})` ]);
+            assert.strictEqual(status, 0, stderr.toString());
+        });
+
+    });
+
+    describe('VCMemoryConfiguration', function () {
+
+        it('Read the values of each scope from memory.', function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue',                 'memory.pairs', [ '()' ]);
+            configuration.setValue('workspaceValue',               'memory.pairs', [ '[]' ]);
+            configuration.setValue('workspaceFolderLanguageValue', 'memory.pairs', [ '{}' ], { folder, languageId: 'c' });
+            configuration.setValue('globalLanguageValue',          'memory.pairs', 'cat',    { languageId: 'cpp' });
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, source: configuration });
+            assert.deepStrictEqual(reader.read(), '[]');
+            assert.deepStrictEqual(reader.read(inC), '{}');
+            assert.deepStrictEqual(reader.read({ uri: inC.uri, languageId: 'cpp' }), '[]');
+            assert.deepStrictEqual(reader.inspect(inC), {
+                defaultValue:                 [ '()' ],
+                globalValue:                  undefined,
+                workspaceValue:               [ '[]' ],
+                workspaceFolderValue:         undefined,
+                defaultLanguageValue:         undefined,
+                globalLanguageValue:          undefined,
+                workspaceLanguageValue:       undefined,
+                workspaceFolderLanguageValue: [ '{}' ]
+            });
+            assert.deepStrictEqual(
+                configuration.getConfiguration('memory', inC).inspect('pairs')?.languageIds,
+                [ 'c', 'cpp' ]
+            );
+
+            // Values outside of any workspace folder do not see workspace folder values.
+            assert.deepStrictEqual(reader.read({ uri: fileUri('/elsewhere/text.c'), languageId: 'c' }), '[]');
+            reader.dispose();
+        });
+
+        it('Write values and fire change events.', async function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue', 'memory.pairs', [ '()' ]);
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, cache: true, source: configuration });
+            const events: VCChangeEvent<string>[] = [];
+            const disposable = reader.onDidChange(event => events.push(event), inC);
+            assert.deepStrictEqual(reader.read(inC), '()');
+            await reader.update([ '<>' ], workspaceFolder, inC);
+            assert.deepStrictEqual(configuration.getConfiguration('memory', inC).inspect('pairs')?.workspaceFolderValue, [ '<>' ]);
+            assert.deepStrictEqual(events, [ { previous: '()', current: '<>' } ]);
+
+            // The cache is invalidated by the write.
+            assert.deepStrictEqual(reader.read(inC), '<>');
+            await assert.rejects(
+                Promise.resolve(
+                    configuration.getConfiguration('memory', fileUri('/elsewhere')).update('pairs', [ '[]' ], workspaceFolder)
+                )
+            );
+            disposable.dispose();
+            reader.dispose();
+        });
+
+        it('Read through a dual reader.', function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue',         'memory.pairs',    [ '()' ]);
+            configuration.setValue('workspaceFolderValue', 'memory.oldPairs', '[]', { folder });
+            const reader = new VCDualReader({
+                name: 'memory.pairs', validate, transform, deprName: 'memory.oldPairs', deprValidate, deprTransform,
+                source: configuration
+            });
+            assert.deepStrictEqual(reader.readWithSource(inC), { value: '[]', source: 'workspaceFolderValue', deprecated: true });
+            assert.deepStrictEqual(reader.read(), '()');
+            reader.dispose();
+        });
+
+    });
+
+    describe('VCChainReader', function () {
+
+        it('Read, merge and watch a chain of configurations.', function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue',   'memory.pairs',      [ '()' ]);
+            configuration.setValue('globalValue',    'memory.oldPairs',   '[]');
+            configuration.setValue('workspaceValue', 'memory.olderPairs', '{}');
+            const registry = new VCReaderRegistry();
+            const chain    = (params: Pick<VCChainReaderParams<[ string[], string, string ], string>, 'merge' | 'registry'>) => {
+                return new VCChainReader({
+                    generations: [
+                        { name: 'memory.pairs',      validate,               transform                                                   },
+                        { name: 'memory.oldPairs',   validate: deprValidate, transform: deprTransform, deprConvert: (d: string) => [ d ] },
+                        { name: 'memory.olderPairs', validate: deprValidate, transform: deprTransform, deprConvert: (d: string) => [ d ] }
+                    ],
+                    source: configuration,
+                    ...params
+                });
+            };
+            const reader  = chain({ registry });
+            const merging = chain({ merge: { mode: 'concat' } });
+            assert.deepStrictEqual(reader.readWithSource(inC),  { value: '{}',     source: 'workspaceValue', generation: 2 });
+            assert.deepStrictEqual(merging.readWithSource(inC), { value: '()[]{}', source: 'workspaceValue', generation: 2 });
+
+            // Every older configuration is recorded as deprecated in favor of the newest one.
+            assert.deepStrictEqual(
+                registry.readers.map(({ name, deprName }) => ({ name, deprName })),
+                [ { name: 'memory.pairs', deprName: 'memory.oldPairs' }, { name: 'memory.pairs', deprName: 'memory.olderPairs' } ]
+            );
+
+            // Changes are watched through the source of the reader.
+            const events: VCChangeEvent<string>[] = [];
+            const disposable = reader.onDidChange(event => events.push(event), inC);
+            configuration.setValue('workspaceValue', 'memory.olderPairs', undefined);
+            assert.deepStrictEqual(events, [ { previous: '{}', current: '[]' } ]);
+            disposable.dispose();
+            reader.dispose();
+            merging.dispose();
+            assert.deepStrictEqual(registry.readers, []);
+        });
+
+    });
+
+    describe('VCAsyncReader', function () {
+
+        it('Validate values asynchronously and start over on configuration changes.', async function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue',   'memory.pairs', [ '()' ]);
+            configuration.setValue('workspaceValue', 'memory.pairs', [ '[]' ]);
+            let calls = 0;
+            const reader = new VCAsyncReader({
+                name:          'memory.pairs',
+                validate,
+                validateAsync: async (t) => (++calls, !t.includes('[]')),
+                transform:     async (t) => transform(t),
+                source:        configuration
+            });
+            const [ first, second ] = await Promise.all([ reader.readWithSourceAsync(inC), reader.readWithSourceAsync(inC) ]);
+            assert.deepStrictEqual(first,  { value: '()', source: 'defaultValue' });
+            assert.deepStrictEqual(second, { value: '()', source: 'defaultValue' });
+            assert.strictEqual(calls, 2);
+
+            // A configuration change starts a new computation.
+            configuration.setValue('workspaceValue', 'memory.pairs', [ '<>' ]);
+            assert.deepStrictEqual(await reader.readAsync(inC), '<>');
+
+            // Reads that are cancelled before they start are rejected.
+            const cancelled: CancellationToken = { isCancellationRequested: true, onCancellationRequested: () => ({ dispose: () => undefined }) };
+            await assert.rejects(reader.readAsync(inC, cancelled), { name: 'Canceled' });
+            reader.dispose();
+        });
+
+    });
+
+    describe('VCBundleReader', function () {
+
+        it('Read and watch several configurations at once.', function () {
+            const configuration = new VCMemoryConfiguration({ workspaceFolders: [ folder ] });
+            configuration.setValue('defaultValue',   'memory.pairs',    [ '()' ]);
+            configuration.setValue('defaultValue',   'memory.oldPairs', '[]');
+            configuration.setValue('workspaceValue', 'memory.pairs',    [ '{}', '<>' ]);
+            const reader = new VCBundleReader({
+                section:        'memory',
+                configurations: {
+                    pairs:    { validate,               transform               },
+                    oldPairs: { validate: deprValidate, transform: deprTransform }
+                },
+                rules:          [ {
+                    keys:        [ 'pairs', 'oldPairs' ],
+                    check:       ({ pairs, oldPairs }) => pairs.length * 2 === oldPairs.length,
+                    message:     'There must be as many pairs in both configurations.',
+                    onViolation: 'fallback'
+                } ],
+                source:         configuration
+            });
+
+            // The workspace value violates the rule, so it is skipped.
+            assert.deepStrictEqual(reader.read(inC), { pairs: '()', oldPairs: '[]' });
+            assert.deepStrictEqual(reader.inspect('pairs', inC).workspaceValue, [ '{}', '<>' ]);
+
+            const events: VCBundleChangeEvent<{ pairs: string, oldPairs: string }>[] = [];
+            const disposable = reader.onDidChange(event => events.push(event), inC);
+            configuration.setValue('workspaceValue', 'memory.pairs', [ '{}' ]);
+            assert.deepStrictEqual(events, [ 
+                { previous: { pairs: '()', oldPairs: '[]' }, current: { pairs: '{}', oldPairs: '[]' }, changed: [ 'pairs' ] } 
+            ]);
+            disposable.dispose();
+        });
+
+    });
+
+    describe('VCFileConfiguration', function () {
+
+        let root: string;
+
+        beforeEach(function () {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'vc-file-configuration-'));
+        });
+
+        afterEach(function () {
+            fs.rmSync(root, { recursive: true });
+        });
+
+        it('Read the values of each scope from settings files.', function () {
+            const folder = { uri: fileUri(path.join(root, 'folder')), name: 'folder', index: 0 };
+            const inC    = { uri: fileUri(path.join(root, 'folder', 'text.c')), languageId: 'c' };
+            fs.mkdirSync(path.join(root, 'folder', '.vscode'), { recursive: true });
+            fs.writeFileSync(path.join(root, 'user.json'), `{
+                // Comments and trailing commas are allowed.
+                "memory.pairs": [ "[]" ],
+                "[c][cpp]": { "memory.pairs": [ "{}" ], },
+            }`);
+            fs.writeFileSync(path.join(root, 'folder', '.vscode', 'settings.json'), '{ "memory.pairs": "cat" }');
+            const configuration = new VCFileConfiguration({
+                defaults:         { 'memory.pairs': [ '()' ] },
+                userSettings:     fileUri(path.join(root, 'user.json')),
+                workspaceFolders: [ folder ]
+            });
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, source: configuration });
+            assert.deepStrictEqual(reader.read(), '[]');
+            assert.deepStrictEqual(reader.read(inC), '{}');
+
+            // The invalid workspace folder value is skipped over.
+            assert.deepStrictEqual(configuration.getConfiguration('memory', folder.uri).inspect('pairs')?.workspaceFolderValue, 'cat');
+            assert.deepStrictEqual(reader.read(folder.uri), '[]');
+            reader.dispose();
+        });
+
+        it('Give blocks for a single language precedence over blocks for several languages.', function () {
+            fs.writeFileSync(path.join(root, 'user.json'), `{
+                "[c]":      { "memory.pairs": [ "()" ] },
+                "[c][cpp]": { "memory.pairs": [ "[]" ] },
+                "[cpp][c]": { "memory.pairs": [ "{}" ] }
+            }`);
+            const configuration = new VCFileConfiguration({ userSettings: fileUri(path.join(root, 'user.json')) });
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, source: configuration });
+
+            // The `[c]` block wins for `c` even though it comes first, while the later of the two
+            // blocks for several languages wins for `cpp`.
+            assert.deepStrictEqual(reader.read({ languageId: 'c' }), '()');
+            assert.deepStrictEqual(reader.read({ languageId: 'cpp' }), '{}');
+            reader.dispose();
+        });
+
+        it('Pick up changes when reloaded.', async function () {
+            fs.writeFileSync(path.join(root, 'user.json'), '{ "memory.pairs": [ "[]" ] }');
+            const configuration = new VCFileConfiguration({ userSettings: fileUri(path.join(root, 'user.json')) });
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, source: configuration });
+            const events: VCChangeEvent<string>[] = [];
+            const disposable = reader.onDidChange(event => events.push(event), fileUri(root));
+            fs.writeFileSync(path.join(root, 'user.json'), '{ "memory.pairs": [ "<>" ] }');
+            configuration.reload();
+            assert.deepStrictEqual(events, [ { previous: '[]', current: '<>' } ]);
+
+            // Unparsable files are reported and leave the values as they were.
+            fs.writeFileSync(path.join(root, 'user.json'), '{ "memory.pairs": ');
+            assert.throws(() => configuration.reload(), SyntaxError);
+            assert.deepStrictEqual(reader.read(), '<>');
+
+            // The files cannot be written to.
+            await assert.rejects(reader.update([ '()' ], 1 as ConfigurationTarget.Global));
+            disposable.dispose();
+            reader.dispose();
+        });
+
+    });
+
+    describe('VCLspConfiguration', function () {
+
+        it('Read the values reported by a language client.', async function () {
+            const requests: VCLspConfigurationItem[][] = [];
+            const configuration = new VCLspConfiguration({
+                request:          async items => { requests.push(items); return [ [ '[]' ], [ '{}' ] ]; },
+                names:            [ 'memory.pairs' ],
+                defaults:         { 'memory.pairs': [ '()' ] },
+                workspaceFolders: [ folder ]
+            });
+            const reader = new VCReader({ name: 'memory.pairs', validate, transform, source: configuration });
+            assert.deepStrictEqual(reader.read(), '()');
+            await configuration.refresh();
+            assert.deepStrictEqual(requests, [ [
+                { section: 'memory.pairs' },
+                { scopeUri: folder.uri.toString(), section: 'memory.pairs' }
+            ] ]);
+            assert.deepStrictEqual(reader.read(), '[]');
+            assert.deepStrictEqual(reader.read(inC), '{}');
+            reader.dispose();
+        });
+
+        it('Fall back to the defaults when the client reports nothing or invalid values.', async function () {
+            const configuration = new VCLspConfiguration({
+                request:  async () => [ null, 'cat' ],
+                names:    [ 'memory.pairs', 'memory.otherPairs' ],
+                defaults: { 'memory.pairs': [ '()' ], 'memory.otherPairs': [ '[]' ] }
+            });
+            await configuration.refresh();
+            const pairs      = new VCReader({ name: 'memory.pairs',      validate, transform, source: configuration });
+            const otherPairs = new VCReader({ name: 'memory.otherPairs', validate, transform, source: configuration });
+            assert.deepStrictEqual(pairs.read(), '()');
+            assert.deepStrictEqual(otherPairs.readWithSource(), { value: '[]', source: 'defaultValue' });
+            pairs.dispose();
+            otherPairs.dispose();
+        });
+
+    });
+
+});
@@ -0,0 +1,101 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationTarget, ConfigurationScope } from 'vscode';
+import { InspectKey } from './inspect';
+import { UpdateNotObservedError } from './errors';
+import { configurationTargets, defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Get the `inspect` scope that is written to when updating a configuration with `target` and
+ * `overrideInLanguage`.
+ *
+ * @internal
+ */
+export function targetInspectKey(target: ConfigurationTarget, overrideInLanguage: boolean): InspectKey {
+    switch (target) {
+        case configurationTargets.Global:
+            return overrideInLanguage ? 'globalLanguageValue' : 'globalValue';
+        case configurationTargets.Workspace:
+            return overrideInLanguage ? 'workspaceLanguageValue' : 'workspaceValue';
+        case configurationTargets.WorkspaceFolder:
+            return overrideInLanguage ? 'workspaceFolderLanguageValue' : 'workspaceFolderValue';
+    }
+}
+
+/**
+ * Get the settings that an `inspect` scope corresponds to.
+ *
+ * This is the inverse of `targetInspectKey`. Default values do not correspond to any settings, so
+ * `undefined` is returned for them.
+ *
+ * @internal
+ */
+export function inspectKeyTarget(key: InspectKey): ConfigurationTarget | undefined {
+    switch (key) {
+        case 'globalValue':
+        case 'globalLanguageValue':
+            return configurationTargets.Global;
+        case 'workspaceValue':
+        case 'workspaceLanguageValue':
+            return configurationTargets.Workspace;
+        case 'workspaceFolderValue':
+        case 'workspaceFolderLanguageValue':
+            return configurationTargets.WorkspaceFolder;
+        case 'defaultValue':
+        case 'defaultLanguageValue':
+            return undefined;
+    }
+}
+
+/**
+ * Write a raw value to a configuration, then wait until the value is observable through vscode's
+ * `inspect` method.
+ *
+ * vscode does not guarantee that an updated value is observable as soon as the promise returned by
+ * `WorkspaceConfiguration.update` resolves, so after writing we wait for configuration change events
+ * until the value is observable.
+ *
+ * @param name Full name of the configuration.
+ * @param section Section name of the configuration (see `splitName`).
+ * @param child Child name of the configuration (see `splitName`).
+ * @param source Where the configuration is written to.
+ * @param timeout Milliseconds to wait for the value to become observable after writing.
+ *
+ * @return A promise that resolves once the value is observable, or rejects if that does not happen
+ *         within `timeout` milliseconds.
+ *
+ * @internal
+ */
+export async function writeAndObserve(
+    name:               string,
+    section:            string,
+    child:              string,
+    value:              unknown,
+    target:             ConfigurationTarget,
+    scope:              ConfigurationScope | undefined,
+    overrideInLanguage: boolean,
+    source:             VCConfigurationSource = defaultSource(),
+    timeout:            number = 5000
+): Promise<void> {
+    const key        = targetInspectKey(target, overrideInLanguage);
+    const observable = () => {
+        const inspect = source.getConfiguration(section, scope).inspect<unknown>(child);
+        return isDeepStrictEqual(inspect?.[key], value);
+    };
+    await source.getConfiguration(section, scope).update(child, value, target, overrideInLanguage);
+    if (observable()) {
+        return;
+    }
+    return new Promise((resolve, reject) => {
+        const subscription = source.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration(name) && observable()) {
+                clearTimeout(timer);
+                subscription.dispose();
+                resolve();
+            }
+        });
+        const timer = setTimeout(() => {
+            subscription.dispose();
+            reject(new UpdateNotObservedError(name, scope, key, value));
+        }, timeout);
+    });
+}
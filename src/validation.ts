@@ -0,0 +1,181 @@
+import { VCValueDetail } from './inspect';
+
+/**
+ * Details of why a value failed validation.
+ */
+export interface ValidationFailure {
+
+    /**
+     * Human readable explanation of why the value is invalid.
+     */
+    readonly reason: string;
+
+    /**
+     * [JSON path] to the offending part of the value, such as `$[3].open`.
+     *
+     * The path is `$` if the value as a whole is invalid.
+     *
+     * [JSON path]: https://goessner.net/articles/JsonPath/
+     */
+    readonly path: string;
+
+}
+
+/**
+ * Callback used to validate configuration values.
+ *
+ * Any type guard of the form `(t: unknown) => t is T` is a validator. A validator can optionally
+ * carry an `explain` callback that reports why a value is invalid, which readers use to provide
+ * detailed diagnostics. Use `withExplanation` to attach one to an existing type guard.
+ */
+export type Validator<T> = ((t: unknown) => t is T) & {
+
+    /**
+     * Explain why `t` fails validation.
+     *
+     * This is only called for values that fail validation. It may return `undefined` if no better
+     * explanation than a generic one is available.
+     */
+    readonly explain?: (t: unknown) => ValidationFailure | undefined;
+
+};
+
+/**
+ * Attach an `explain` callback to a type guard.
+ */
+export function withExplanation<T>(
+    guard:   (t: unknown) => t is T,
+    explain: (t: unknown) => ValidationFailure | undefined
+): Validator<T> {
+    const validator = (t: unknown): t is T => guard(t);
+    return Object.assign(validator, { explain });
+}
+
+/**
+ * Get the path to a child of a value given the path within that child.
+ *
+ * For instance, `childPath(3, '$.open')` yields `$[3].open`.
+ */
+export function childPath(key: string | number, path: string = '$'): string {
+    let segment: string;
+    if (typeof key === 'number') {
+        segment = `[${key}]`;
+    } else if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+        segment = `.${key}`;
+    } else {
+        segment = `[${JSON.stringify(key)}]`;
+    }
+    return `$${segment}${path.slice(1)}`;
+}
+
+/**
+ * Split a path built by `childPath` into its keys.
+ *
+ * For instance, `parsePath('$[3].open')` yields `[3, 'open']`.
+ *
+ * @return `undefined` if `path` is not of the form built by `childPath`.
+ *
+ * @internal
+ */
+export function parsePath(path: string): (string | number)[] | undefined {
+    const pattern = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[("(?:[^"\\]|\\.)*")\]/y;
+    const keys: (string | number)[] = [];
+    if (!path.startsWith('$')) {
+        return undefined;
+    }
+    pattern.lastIndex = 1;
+    while (pattern.lastIndex < path.length) {
+        const match = pattern.exec(path);
+        if (!match) {
+            return undefined;
+        }
+        const [ , name, index, quoted ] = match;
+        keys.push(name ?? (index !== undefined ? Number(index) : JSON.parse(quoted) as string));
+    }
+    return keys;
+}
+
+/**
+ * Format a count of things for use in explanations, such as `1 character` or `3 characters`.
+ *
+ * @internal
+ */
+export function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Validate a value, explaining why it is invalid if it is.
+ *
+ * @return `undefined` if the value is valid. Otherwise, the explanation given by the validator's 
+ *         `explain` callback, or a generic explanation if there is none.
+ */
+export function check<T>(validate: Validator<T>, value: unknown): ValidationFailure | undefined {
+    if (validate(value)) {
+        return undefined;
+    }
+    return validate.explain?.(value) ?? { reason: 'Value failed validation.', path: '$' };
+}
+
+/**
+ * Validate a value and describe the outcome.
+ *
+ * @internal
+ */
+export function describeValue<T>(validate: Validator<T>, value: unknown, elementwise: boolean = false): VCValueDetail<T> {
+    if (value === undefined) {
+        return { status: 'unset' };
+    }
+    const failure = check(validate, value);
+    if (!failure) {
+        return { status: 'valid', value: value as T };
+    }
+    const pruned = elementwise ? pruneElements(validate, value) : undefined;
+    if (pruned) {
+        return { status: 'valid', value: pruned.value, rejected: pruned.rejected };
+    }
+    return { status: 'invalid', value, reason: failure.reason, path: failure.path };
+}
+
+/**
+ * Drop the invalid elements of an array or the invalid properties of an object.
+ * 
+ * Since validators are opaque, each element is checked by validating an array (or object) that 
+ * contains only that element. This works for any validator that checks elements independently of 
+ * each other. The remainder is then validated as a whole, so that constraints on the whole value 
+ * (such as a minimum length) still apply.
+ * 
+ * @return The valid remainder and why each dropped element is invalid, or `undefined` if `value` is 
+ *         neither an array nor an object, or if the remainder is still invalid.
+ */
+function pruneElements<T>(
+    validate: Validator<T>, 
+    value:    unknown
+): { value: T, rejected: ValidationFailure[] } | undefined {
+    const rejected: ValidationFailure[] = [];
+    let remainder: unknown;
+    if (Array.isArray(value)) {
+        remainder = value.filter((element, i) => {
+            const failure = check(validate, [ element ]);
+            if (failure) {
+                const path = failure.path.startsWith('$[0]') ? `$${failure.path.slice('$[0]'.length)}` : '$';
+                rejected.push({ reason: failure.reason, path: childPath(i, path) });
+            }
+            return !failure;
+        });
+    } else if (typeof value === 'object' && value !== null) {
+        const entries = Object.entries(value).filter(([ key, element ]) => {
+            const failure = check(validate, { [key]: element });
+            if (failure) {
+                const prefix = childPath(key);
+                const path   = failure.path.startsWith(prefix) ? failure.path : prefix;
+                rejected.push({ reason: failure.reason, path });
+            }
+            return !failure;
+        });
+        remainder = Object.fromEntries(entries);
+    } else {
+        return undefined;
+    }
+    return validate(remainder) ? { value: remainder, rejected } : undefined;
+}
@@ -0,0 +1,305 @@
+/**
+ * Composable validators.
+ *
+ * The functions in this module build validators (type guards with explanations, see `Validator`)
+ * that can be passed to the `validate` parameters of `VCReader` and `VCDualReader`. The type that
+ * a validator checks for is inferred from how it is built. For instance:
+ *
+ * ```
+ * const validate = isArrayOf(isObject({ open: isString(), close: isString() }));
+ * ```
+ *
+ * is a `Validator<{ open: string, close: string }[]>`. When a value fails validation, the `explain`
+ * callback of a validator reports the innermost part of the value that failed, along with a JSON
+ * path to it.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { check, childPath, plural, ValidationFailure, Validator, withExplanation } from './validation';
+
+/**
+ * The type that a validator checks for.
+ */
+export type ValidatedType<V> = V extends (t: unknown) => t is infer T ? T : never;
+
+/**
+ * A validator that marks an optional property in `isObject`.
+ */
+export type OptionalValidator<T> = Validator<T | undefined> & { readonly optional: true };
+
+/**
+ * Validators for each property of an object.
+ */
+export type Shape = { readonly [key: string]: Validator<unknown> };
+
+/**
+ * The type of objects that are valid according to a `Shape`.
+ */
+export type ShapeType<S extends Shape> = Flatten<
+    { -readonly [K in Exclude<keyof S, OptionalKeys<S>>]: ValidatedType<S[K]> }
+    & { -readonly [K in OptionalKeys<S>]?: Exclude<ValidatedType<S[K]>, undefined> }
+>;
+
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends { readonly optional: true } ? K : never }[keyof S];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type Primitive = string | number | boolean | null;
+
+/**
+ * Build a validator from a function that explains why a value is invalid.
+ */
+function fromExplain<T>(explain: (t: unknown) => ValidationFailure | undefined): Validator<T> {
+    return withExplanation((t: unknown): t is T => explain(t) === undefined, explain);
+}
+
+/**
+ * Describe a value's type for use in explanations.
+ */
+function typeOf(t: unknown): string {
+    if (t === null) {
+        return 'null';
+    } else if (Array.isArray(t)) {
+        return 'an array';
+    } else {
+        return `a ${typeof t}`;
+    }
+}
+
+function isPlainObject(t: unknown): t is Record<string, unknown> {
+    return typeof t === 'object' && t !== null && !Array.isArray(t);
+}
+
+/**
+ * Validator for strings.
+ */
+export function isString(
+    options: { minLength?: number, maxLength?: number, pattern?: RegExp } = {}
+): Validator<string> {
+    const { minLength, maxLength, pattern } = options;
+    return fromExplain((t) => {
+        if (typeof t !== 'string') {
+            return { reason: `Expected a string but got ${typeOf(t)}.`, path: '$' };
+        } else if (minLength !== undefined && t.length < minLength) {
+            return { reason: `Expected a string with at least ${plural(minLength, 'character')}.`, path: '$' };
+        } else if (maxLength !== undefined && t.length > maxLength) {
+            return { reason: `Expected a string with at most ${plural(maxLength, 'character')}.`, path: '$' };
+        } else if (pattern !== undefined && !pattern.test(t)) {
+            return { reason: `Expected a string matching ${pattern}.`, path: '$' };
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Validator for numbers within an optional inclusive range.
+ */
+export function isNumber(
+    options: { min?: number, max?: number, integer?: boolean } = {}
+): Validator<number> {
+    const { min, max, integer } = options;
+    return fromExplain((t) => {
+        if (typeof t !== 'number' || Number.isNaN(t)) {
+            return { reason: `Expected a number but got ${typeOf(t)}.`, path: '$' };
+        } else if (integer && !Number.isInteger(t)) {
+            return { reason: `Expected an integer.`, path: '$' };
+        } else if (min !== undefined && t < min) {
+            return { reason: `Expected a number no less than ${min}.`, path: '$' };
+        } else if (max !== undefined && t > max) {
+            return { reason: `Expected a number no greater than ${max}.`, path: '$' };
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Validator for booleans.
+ */
+export function isBoolean(): Validator<boolean> {
+    return fromExplain((t) => {
+        return typeof t === 'boolean' ? undefined : { reason: `Expected a boolean but got ${typeOf(t)}.`, path: '$' };
+    });
+}
+
+/**
+ * Validator for values that are one of `values`, such as the members of an enum.
+ */
+export function isOneOf<V extends Primitive[]>(...values: V): Validator<V[number]> {
+    return fromExplain((t) => {
+        if (values.some(value => value === t)) {
+            return undefined;
+        }
+        return { reason: `Expected one of ${values.map(value => JSON.stringify(value)).join(', ')}.`, path: '$' };
+    });
+}
+
+/**
+ * Validator for arrays whose elements are all valid according to `item`.
+ */
+export function isArrayOf<T>(
+    item:    Validator<T>,
+    options: { minLength?: number, maxLength?: number } = {}
+): Validator<T[]> {
+    const { minLength, maxLength } = options;
+    return fromExplain((t) => {
+        if (!Array.isArray(t)) {
+            return { reason: `Expected an array but got ${typeOf(t)}.`, path: '$' };
+        } else if (minLength !== undefined && t.length < minLength) {
+            return { reason: `Expected an array with at least ${plural(minLength, 'element')}.`, path: '$' };
+        } else if (maxLength !== undefined && t.length > maxLength) {
+            return { reason: `Expected an array with at most ${plural(maxLength, 'element')}.`, path: '$' };
+        }
+        for (let i = 0; i < t.length; ++i) {
+            const failure = check(item, t[i]);
+            if (failure) {
+                return { reason: failure.reason, path: childPath(i, failure.path) };
+            }
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Validator for fixed length arrays where each element has its own validator.
+ */
+export function isTuple<Ts extends unknown[]>(
+    ...items: { [K in keyof Ts]: Validator<Ts[K]> }
+): Validator<Ts> {
+    return fromExplain((t) => {
+        if (!Array.isArray(t)) {
+            return { reason: `Expected an array but got ${typeOf(t)}.`, path: '$' };
+        } else if (t.length !== items.length) {
+            return { reason: `Expected an array with exactly ${plural(items.length, 'element')}.`, path: '$' };
+        }
+        for (let i = 0; i < items.length; ++i) {
+            const failure = check(items[i] as Validator<unknown>, t[i]);
+            if (failure) {
+                return { reason: failure.reason, path: childPath(i, failure.path) };
+            }
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Validator for objects whose property values are all valid according to `value`.
+ */
+export function isRecordOf<T>(value: Validator<T>): Validator<Record<string, T>> {
+    return fromExplain((t) => {
+        if (!isPlainObject(t)) {
+            return { reason: `Expected an object but got ${typeOf(t)}.`, path: '$' };
+        }
+        for (const key of Object.keys(t)) {
+            const failure = check(value, t[key]);
+            if (failure) {
+                return { reason: failure.reason, path: childPath(key, failure.path) };
+            }
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Validator for objects where each property has its own validator.
+ *
+ * Properties whose validators are wrapped with `optional` may be omitted.
+ *
+ * @param options.exact If `true`, objects with properties not in `shape` are invalid. Defaults to
+ *                      `false`.
+ */
+export function isObject<S extends Shape>(
+    shape:   S,
+    options: { exact?: boolean } = {}
+): Validator<ShapeType<S>> {
+    return fromExplain((t) => {
+        if (!isPlainObject(t)) {
+            return { reason: `Expected an object but got ${typeOf(t)}.`, path: '$' };
+        }
+        for (const key of Object.keys(shape)) {
+            const failure = check(shape[key], t[key]);
+            if (failure) {
+                const reason = t[key] === undefined ? `Missing required property '${key}'.` : failure.reason;
+                return { reason, path: childPath(key, failure.path) };
+            }
+        }
+        if (options.exact) {
+            const extra = Object.keys(t).find(key => !Object.prototype.hasOwnProperty.call(shape, key));
+            if (extra !== undefined) {
+                return { reason: `Unexpected property '${extra}'.`, path: childPath(extra) };
+            }
+        }
+        return undefined;
+    });
+}
+
+/**
+ * Mark a property of `isObject` as optional.
+ */
+export function optional<T>(validator: Validator<T>): OptionalValidator<T> {
+    const explain = (t: unknown) => t === undefined ? undefined : check(validator, t);
+    return Object.assign(fromExplain<T | undefined>(explain), { optional: true as const });
+}
+
+/**
+ * Validator for values that are valid according to at least one of `validators`.
+ */
+export function anyOf<Vs extends Validator<unknown>[]>(...validators: Vs): Validator<ValidatedType<Vs[number]>> {
+    return fromExplain((t) => {
+        const failures: ValidationFailure[] = [];
+        for (const validator of validators) {
+            const failure = check(validator, t);
+            if (!failure) {
+                return undefined;
+            }
+            failures.push(failure);
+        }
+
+        // Report the failure that got deepest into the value, since that alternative is most
+        // likely the one the user intended.
+        return failures.reduce<ValidationFailure | undefined>(
+            (deepest, failure) => !deepest || failure.path.length > deepest.path.length ? failure : deepest,
+            undefined
+        ) ?? { reason: 'No alternatives to validate against.', path: '$' };
+    });
+}
+
+/**
+ * Narrow a validator with an additional constraint.
+ *
+ * @param predicate Constraint that is only checked for values that are valid according to
+ *                  `validator`.
+ * @param reason Explanation given when `predicate` is not satisfied.
+ */
+export function refine<T>(validator: Validator<T>, predicate: (t: T) => boolean, reason: string): Validator<T> {
+    return fromExplain((t) => {
+        const failure = check(validator, t);
+        if (failure) {
+            return failure;
+        }
+        return predicate(t as T) ? undefined : { reason, path: '$' };
+    });
+}
+
+/**
+ * Narrow an array validator to arrays without duplicate elements.
+ *
+ * @param key Callback that yields the part of each element that must be unique. Defaults to the
+ *            whole element. Elements are compared by deep equality.
+ */
+export function unique<T>(validator: Validator<T[]>, key: (t: T) => unknown = (t) => t): Validator<T[]> {
+    return fromExplain((t) => {
+        const failure = check(validator, t);
+        if (failure) {
+            return failure;
+        }
+        const keys = (t as T[]).map(key);
+        for (let i = 1; i < keys.length; ++i) {
+            for (let j = 0; j < i; ++j) {
+                if (isDeepStrictEqual(keys[i], keys[j])) {
+                    return { reason: `Duplicate of the element at index ${j}.`, path: childPath(i) };
+                }
+            }
+        }
+        return undefined;
+    });
+}
@@ -0,0 +1,236 @@
+import { CancellationToken, ConfigurationScope, Disposable } from 'vscode';
+import { VCReader, VCReadResult } from './vc-reader';
+import { Inspect, InspectDetailed, InspectKey, toInspect, VCValueDetail } from './inspect';
+import { readGenerations, ResolutionPolicy } from './resolution';
+import { MergeStrategy } from './merge';
+import { VCDeclaredScope } from './declared-scope';
+import { ValidationFailure, Validator } from './validation';
+import { cancellationError, InFlight } from './in-flight';
+import { scopeKey } from './scope';
+import { defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Configuration reader for configurations whose values can only be validated or transformed
+ * asynchronously, such as configurations whose values are paths that have to exist on disk.
+ *
+ * Values are first validated synchronously with the `validate` callback, which checks the shape of
+ * the value, then asynchronously with the `validateAsync` callback, which can perform the checks
+ * that require I/O. The effective value is determined in the same way as `VCReader.read`, then
+ * transformed with the `transform` callback, which may also be asynchronous.
+ *
+ * Concurrent calls to the same method for the same scope share a single computation, so that
+ * asynchronous checks are not repeated. Scopes within the same workspace folder that have the same
+ * language count as the same scope. A configuration change starts a new computation for calls made
+ * after it.
+ */
+export class VCAsyncReader<T, E> implements Disposable {
+
+    /**
+     * Full name of the configuration.
+     */
+    public get name(): string {
+        return this.args.name;
+    }
+
+    /**
+     * Reader used to synchronously validate the values of the configuration.
+     */
+    private readonly reader: VCReader<T, T>;
+
+    /**
+     * Where the configuration is read from.
+     */
+    private readonly source: VCConfigurationSource;
+
+    private readonly inspections = new InFlight<InspectDetailed<T>>();
+
+    private readonly reads = new InFlight<VCReadResult<E>>();
+
+    private readonly subscription: Disposable;
+
+    /**
+     * Register a reader that asynchronously validates and transforms the values of a configuration.
+     *
+     * @throws `ConfigurationNameEmptyError` if `name` is empty.
+     */
+    public constructor(private readonly args: VCAsyncReaderParams<T, E>) {
+        this.source       = args.source ?? defaultSource();
+        this.reader       = new VCReader({ 
+            name:          args.name, 
+            validate:      args.validate, 
+            transform:     (t) => t, 
+            declaredScope: args.declaredScope,
+            source:        this.source
+        });
+        this.subscription = this.source.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration(args.name)) {
+                this.inspections.clear();
+                this.reads.clear();
+            }
+        });
+    }
+
+    /**
+     * Get the effective validated value of the configuration.
+     *
+     * See `VCReader.read` for how the effective value is determined.
+     *
+     * @param scope See the `scope` parameter of `VCReader.read`.
+     * @param token Token for cancelling the read.
+     *
+     * @throws `CancellationError` if `token` is cancelled before the read completes.
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained.
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the
+     *         highest priority scope is invalid.
+     */
+    public async readAsync(scope?: ConfigurationScope, token?: CancellationToken): Promise<E> {
+        return (await this.readWithSourceAsync(scope, token)).value;
+    }
+
+    /**
+     * Get the effective validated value of the configuration along with the scope that it came
+     * from.
+     *
+     * See `VCReader.readWithSource` for more info.
+     *
+     * @throws The same errors as `readAsync`.
+     */
+    public readWithSourceAsync(scope?: ConfigurationScope, token?: CancellationToken): Promise<VCReadResult<E>> {
+        return this.reads.run(scopeKey(scope, this.source), async (token) => {
+            const detailed = await this.inspectDetailedAsync(scope, token);
+            const policy   = this.args.resolution ?? { mode: 'fallback' };
+            const { value, source } = readGenerations<T, Promise<E>>(
+                [ {
+                    name:            this.name,
+                    inspectDetailed: () => detailed,
+                    transform:       (t) => Promise.resolve(this.args.transform(t, token))
+                } ],
+                policy.mode === 'callerDefault' ? { mode: 'callerDefault', value: Promise.resolve(policy.value) } : policy,
+                scope,
+                this.args.merge
+            );
+            const transformed = await value;
+            throwIfCancelled(token);
+            return { value: transformed, source };
+        }, token);
+    }
+
+    /**
+     * Get the validated values of the configuration.
+     *
+     * See `VCReader.inspect` for more info. Values which fail either synchronous or asynchronous
+     * validation are returned as `undefined`.
+     *
+     * @param scope See the `scope` parameter of `VCReader.inspect`.
+     * @param token Token for cancelling the validation.
+     *
+     * @throws `CancellationError` if `token` is cancelled before validation completes.
+     */
+    public async inspectAsync(scope?: ConfigurationScope, token?: CancellationToken): Promise<Inspect<T>> {
+        return toInspect(await this.inspectDetailedAsync(scope, token));
+    }
+
+    /**
+     * Get the outcomes of validating the values of the configuration.
+     *
+     * See `VCReader.inspectDetailed` for more info.
+     *
+     * @throws The same errors as `inspectAsync`.
+     */
+    public inspectDetailedAsync(scope?: ConfigurationScope, token?: CancellationToken): Promise<InspectDetailed<T>> {
+        return this.inspections.run(scopeKey(scope, this.source), async (token) => {
+            const detailed = this.reader.inspectDetailed(scope);
+            const entries  = await Promise.all(
+                (Object.keys(detailed) as InspectKey[]).map(async (key) => [ key, await this.validateAsync(detailed[key], token) ])
+            );
+            throwIfCancelled(token);
+            return Object.fromEntries(entries) as InspectDetailed<T>;
+        }, token);
+    }
+
+    /**
+     * Release the resources held by this reader.
+     *
+     * Reads that are in progress still complete.
+     */
+    public dispose(): void {
+        this.subscription.dispose();
+        this.inspections.dispose();
+        this.reads.dispose();
+        this.reader.dispose();
+    }
+
+    /**
+     * Asynchronously validate a value that passed synchronous validation.
+     */
+    private async validateAsync(detail: VCValueDetail<T>, token: CancellationToken): Promise<VCValueDetail<T>> {
+        if (detail.status !== 'valid' || !this.args.validateAsync) {
+            return detail;
+        }
+        throwIfCancelled(token);
+        const outcome = await this.args.validateAsync(detail.value, token);
+        if (outcome === true) {
+            return detail;
+        }
+        const failure = outcome === false ? { reason: 'Value failed validation.', path: '$' } : outcome;
+        return { status: 'invalid', value: detail.value, reason: failure.reason, path: failure.path };
+    }
+
+}
+
+export interface VCAsyncReaderParams<T, E> {
+
+    /**
+     * Full name of the configuration.
+     */
+    readonly name: string;
+
+    /**
+     * Callback used to synchronously validate values of the configuration.
+     *
+     * This should check the shape of values. Checks that require I/O belong in `validateAsync`.
+     */
+    readonly validate: Validator<T>;
+
+    /**
+     * Callback used to asynchronously validate values that passed `validate`.
+     *
+     * The returned promise should resolve to `true` if the value is valid. Otherwise, it should
+     * resolve to `false` or to an explanation of why the value is invalid.
+     *
+     * The callback should stop early when `token` is cancelled.
+     */
+    readonly validateAsync?: (t: T, token: CancellationToken) => Thenable<boolean | ValidationFailure>;
+
+    /**
+     * Callback used to transform the effective value. This may return a promise.
+     */
+    readonly transform: (t: T, token: CancellationToken) => E | Thenable<E>;
+
+    /**
+     * See `VCReaderParams.resolution`.
+     */
+    readonly resolution?: ResolutionPolicy<E>;
+
+    /**
+     * See `VCReaderParams.merge`.
+     */
+    readonly merge?: MergeStrategy<T>;
+
+    /**
+     * See `VCReaderParams.declaredScope`.
+     */
+    readonly declaredScope?: VCDeclaredScope;
+
+    /**
+     * See `VCReaderParams.source`.
+     */
+    readonly source?: VCConfigurationSource;
+
+}
+
+function throwIfCancelled(token: CancellationToken): void {
+    if (token.isCancellationRequested) {
+        throw cancellationError();
+    }
+}
@@ -0,0 +1,269 @@
+import { isDeepStrictEqual } from 'util';
+import { ConfigurationScope, Disposable } from 'vscode';
+import { describeInspect, VCReaderParams } from './vc-reader';
+import { Inspect, InspectDetailed, toInspect } from './inspect';
+import { readGenerations } from './resolution';
+import { applyRules, RuleTarget, VCBundleRule, VCRuleViolation } from './rules';
+import { ValidatedType } from './validators';
+import { VCChangeEvent, watchEffectiveValue } from './change-event';
+import { ConfigurationNameEmptyError, InvalidRuleError } from './errors';
+import { defaultSource, VCConfigurationSource } from './source';
+
+/**
+ * Configuration reader that reads and validates several configurations in the same section at once.
+ *
+ * Each configuration in the bundle is validated, resolved and transformed in the same way as with
+ * a `VCReader`, but all of them are read through a single `getConfiguration` call, and the
+ * effective values are yielded together as an object keyed by the child names of the
+ * configurations. For instance:
+ *
+ * ```
+ * const reader = new VCBundleReader({
+ *     section: 'leaper',
+ *     configurations: {
+ *         pairs:     { validate: isArrayOf(isString()), transform: (t: string[]) => new Set(t) },
+ *         decorate:  { validate: isBoolean(),           transform: (t: boolean)  => t            }
+ *     }
+ * });
+ * const { pairs, decorate } = reader.read();
+ * ```
+ *
+ * where `pairs` is a `Set<string>` and `decorate` is a `boolean`.
+ */
+export class VCBundleReader<S extends VCBundleSpec> {
+
+    /**
+     * Section name of the configurations in the bundle.
+     */
+    public get section(): string {
+        return this.args.section;
+    }
+
+    /**
+     * Full names of the configurations in the bundle.
+     */
+    public get names(): string[] {
+        return this.children.map(child => this.fullName(child));
+    }
+
+    /**
+     * Child names of the configurations in the bundle.
+     */
+    private readonly children: string[];
+
+    /**
+     * Where the configurations are read from.
+     */
+    private readonly source: VCConfigurationSource;
+
+    /**
+     * Register a validating reader for a bundle of configurations.
+     *
+     * @throws `ConfigurationNameEmptyError` if `section` or any of the child names is empty.
+     * 
+     * @throws `InvalidRuleError` if any of the `rules` has no `keys`.
+     */
+    public constructor(private readonly args: VCBundleReaderParams<S>) {
+        this.children = Object.keys(args.configurations);
+        this.source   = args.source ?? defaultSource();
+        if (args.section.trim().length === 0) {
+            throw new ConfigurationNameEmptyError(args.section);
+        }
+        for (const child of this.children) {
+            if (child.trim().length === 0) {
+                throw new ConfigurationNameEmptyError(this.fullName(child));
+            }
+        }
+        for (const rule of args.rules ?? []) {
+            if (rule.keys.length === 0) {
+                throw new InvalidRuleError(args.section, rule.message, 'The rule does not involve any configuration.');
+            }
+        }
+    }
+
+    /**
+     * Get the effective validated values of the configurations in the bundle.
+     *
+     * The effective value of each configuration is determined in the same way as `VCReader.read`,
+     * using the `validate`, `transform`, `resolution`, `merge`, `elementwise` and `declaredScope` 
+     * parameters of that configuration, except that values rejected by `rules` with the `fallback`
+     * action are treated as invalid (see `VCBundleRule`).
+     *
+     * @param scope See the `scope` parameter of `VCReader.read`.
+     *
+     * @return An object with the transformed effective value of each configuration.
+     *
+     * @throws `NoEffectiveValueError` or `InvalidValueError` (see `VCReader.read`) if the effective
+     *         value of any configuration cannot be obtained.
+     */
+    public read(scope?: ConfigurationScope): VCBundleValues<S> {
+        return this.readWithViolations(scope).values;
+    }
+
+    /**
+     * Get the effective validated values of the configurations in the bundle along with the rules
+     * that they violate.
+     *
+     * The effective values are determined in the same way as `read`. Only the violations of rules 
+     * with the `report` action are returned, since rules with the `fallback` action are always 
+     * satisfied by the effective values.
+     *
+     * @param scope See the `scope` parameter of `VCReader.read`.
+     *
+     * @throws The same errors as `read`.
+     */
+    public readWithViolations(scope?: ConfigurationScope): { values: VCBundleValues<S>, violations: VCRuleViolation[] } {
+        const configuration = this.source.getConfiguration(this.args.section, scope);
+        const targets: Record<string, RuleTarget> = {};
+        for (const child of this.children) {
+            const spec     = this.spec(child);
+            const name     = this.fullName(child);
+            targets[child] = {
+                name,
+                detailed:   describeInspect(name, configuration.inspect(child), spec, scope),
+                resolution: spec.resolution ?? { mode: 'fallback' },
+                merge:      spec.merge
+            };
+        }
+        const violations = applyRules(this.args.section, targets, this.args.rules ?? [], scope);
+        const values: Record<string, unknown> = {};
+        for (const child of this.children) {
+            const { name, detailed, resolution, merge } = targets[child];
+            values[child] = readGenerations(
+                [ { name, inspectDetailed: () => detailed, transform: this.spec(child).transform } ],
+                resolution,
+                scope,
+                merge
+            ).value;
+        }
+        return { values: values as VCBundleValues<S>, violations };
+    }
+
+    /**
+     * Get the validated values of one of the configurations in the bundle.
+     *
+     * See `VCReader.inspect` for more info.
+     *
+     * @param child Child name of the configuration.
+     * @param scope See the `scope` parameter of `VCReader.inspect`.
+     */
+    public inspect<K extends keyof S & string>(child: K, scope?: ConfigurationScope): Inspect<VCBundleTypes<S>[K]> {
+        return toInspect(this.inspectDetailed(child, scope));
+    }
+
+    /**
+     * Get the outcomes of validating the values of one of the configurations in the bundle.
+     *
+     * See `VCReader.inspectDetailed` for more info.
+     *
+     * @param child Child name of the configuration.
+     * @param scope See the `scope` parameter of `VCReader.inspect`.
+     */
+    public inspectDetailed<K extends keyof S & string>(child: K, scope?: ConfigurationScope): InspectDetailed<VCBundleTypes<S>[K]> {
+        const spec    = this.spec(child);
+        const inspect = this.source.getConfiguration(this.args.section, scope).inspect(child);
+        return describeInspect(this.fullName(child), inspect, spec, scope) as InspectDetailed<VCBundleTypes<S>[K]>;
+    }
+
+    /**
+     * Subscribe to changes in the effective values of the configurations in the bundle.
+     *
+     * The `listener` is called once per configuration change event, no matter how many of the
+     * configurations in the bundle it changed. The event carries the effective values of the whole
+     * bundle before and after the change, along with the child names of the configurations whose
+     * effective values changed.
+     *
+     * If the effective value of any configuration cannot be obtained, the bundle is taken to have
+     * no effective values (i.e. `previous` or `current` is `undefined`).
+     *
+     * @param scope If specified, only changes that affect this scope are considered, and the effective
+     *              values are read from this scope. Otherwise the default scope is used (see `read`).
+     *
+     * @return A disposable that unsubscribes the `listener` when disposed.
+     */
+    public onDidChange(
+        listener: (event: VCBundleChangeEvent<VCBundleValues<S>>) => void,
+        scope?:   ConfigurationScope
+    ): Disposable {
+        return watchEffectiveValue(this.names, (scope) => this.read(scope), ({ previous, current }) => {
+            const changed = this.children.filter(child =>
+                !previous || !current || !isDeepStrictEqual(previous[child], current[child])
+            );
+            listener({ previous, current, changed });
+        }, scope, this.source);
+    }
+
+    private fullName(child: string): string {
+        return `${this.args.section}.${child}`;
+    }
+
+    private spec(child: string): VCBundleEntry<unknown, unknown> {
+        return this.args.configurations[child] as unknown as VCBundleEntry<unknown, unknown>;
+    }
+
+}
+
+/**
+ * Parameters of one of the configurations in a bundle. See `VCReaderParams` for what each of them
+ * does.
+ */
+export type VCBundleEntry<T, E> = Pick<
+    VCReaderParams<T, E>, 
+    'validate' | 'transform' | 'resolution' | 'merge' | 'elementwise' | 'declaredScope'
+>;
+
+/**
+ * The configurations of a bundle, keyed by child name.
+ */
+export type VCBundleSpec = {
+    readonly [child: string]: { readonly validate: (t: unknown) => boolean, readonly transform: (t: never) => unknown }
+};
+
+/**
+ * The validated types of the configurations of a bundle.
+ */
+export type VCBundleTypes<S extends VCBundleSpec> = { [K in keyof S]: ValidatedType<S[K]['validate']> };
+
+/**
+ * The types of the effective values of the configurations of a bundle.
+ */
+export type VCBundleValues<S extends VCBundleSpec> = { [K in keyof S]: ReturnType<S[K]['transform']> };
+
+export interface VCBundleReaderParams<S extends VCBundleSpec> {
+
+    /**
+     * Section name of the configurations in the bundle.
+     */
+    readonly section: string;
+
+    /**
+     * The configurations in the bundle, keyed by child name.
+     */
+    readonly configurations: S & { readonly [K in keyof S]: VCBundleEntry<VCBundleTypes<S>[K], VCBundleValues<S>[K]> };
+
+    /**
+     * Constraints that involve more than one of the configurations in the bundle.
+     * 
+     * Rules are only applied when reading the effective values. The values yielded by `inspect` and
+     * `inspectDetailed` are not affected by them.
+     */
+    readonly rules?: readonly VCBundleRule<VCBundleTypes<S>>[];
+
+    /**
+     * See `VCReaderParams.source`.
+     */
+    readonly source?: VCConfigurationSource;
+
+}
+
+/**
+ * Event fired when the effective values of a bundle of configurations change.
+ */
+export interface VCBundleChangeEvent<V> extends VCChangeEvent<V> {
+
+    /**
+     * Child names of the configurations whose effective values changed.
+     */
+    readonly changed: readonly (keyof V & string)[];
+
+}
@@ -0,0 +1,293 @@
+import { ConfigurationScope, Disposable } from 'vscode';
+import { VCReader, VCReaderParams, VCReadResult } from './vc-reader';
+import { Inspect, InspectDetailed } from './inspect';
+import { readGenerations, ResolutionPolicy } from './resolution';
+import { VCChangeEvent, watchEffectiveValue } from './change-event';
+import { MergeStrategy } from './merge';
+import { VCReaderRegistry } from './registry';
+import { VCConfigurationSource } from './source';
+import { DeprConvertMissingError } from './errors';
+
+/**
+ * Configuration reader that reads and validates values from a chain of configurations, where each
+ * configuration superseded the one after it.
+ *
+ * This is a generalization of `VCDualReader` for configurations that have been renamed more than
+ * once. For instance, if `a.pairs` was renamed to `a.autoPairs` which was later renamed to
+ * `a.pairs.list`, then the generations of the chain would be `a.pairs.list`, `a.autoPairs` and
+ * `a.pairs`, in that order.
+ *
+ * The type parameter `Ts` is a tuple of the validated types of each generation.
+ */
+export class VCChainReader<Ts extends [unknown, ...unknown[]], E> implements Disposable {
+
+    /**
+     * Full names of the configurations in the chain, from the newest to the oldest.
+     */
+    public get names(): string[] {
+        return this.generations.map(generation => generation.name);
+    }
+
+    /**
+     * The configurations in the chain, from the newest to the oldest.
+     */
+    private readonly generations: readonly VCGeneration<unknown, E, Ts[0]>[];
+
+    /**
+     * Readers for each configuration in the chain, from the newest to the oldest.
+     */
+    private readonly readers: VCReader<unknown, E>[];
+
+    /**
+     * Registrations of this reader in the `registry` specified in the constructor, if any.
+     */
+    private readonly registrations: Disposable[];
+
+    /**
+     * Register a validating reader that simultaneously reads values from a chain of configurations.
+     *
+     * @throws `ConfigurationNameEmptyError` if any of the names is empty.
+     * @throws `RangeError` if there are no generations.
+     * @throws `DeprConvertMissingError` if a `merge` strategy other than `replace` is specified 
+     *         without a `deprConvert` callback for every generation but the newest.
+     */
+    public constructor(private readonly args: VCChainReaderParams<Ts, E>) {
+        if (args.generations.length === 0) {
+            throw new RangeError('A chain must have at least one generation.');
+        }
+        this.generations = args.generations as unknown as VCGeneration<unknown, E, Ts[0]>[];
+        if (args.merge && args.merge.mode !== 'replace') {
+            const unconvertible = this.generations.slice(1).find(generation => !generation.deprConvert);
+            if (unconvertible) {
+                throw new DeprConvertMissingError(unconvertible.name);
+            }
+        }
+        this.readers       = this.generations.map(generation => new VCReader({
+            name:          generation.name,
+            validate:      generation.validate,
+            transform:     generation.transform,
+            declaredScope: generation.declaredScope,
+            cache:         args.cache,
+            source:        args.source
+        }));
+        this.registrations = this.register(args.registry);
+    }
+
+    /**
+     * Get the effective validated value between the configurations in the chain.
+     *
+     * The effective value is determined in the same way as `VCDualReader.read`, except that there
+     * may be more than two configurations. For each scope, from the highest priority to the lowest
+     * (see `inspectKeysByPriority`), each configuration is checked in order from the newest to the
+     * oldest. The first valid value found is the effective value.
+     *
+     * How values that fail validation are treated depends on the `resolution` policy specified in
+     * the constructor of this class. By default they are skipped.
+     *
+     * Before it is returned, the effective value is transformed with the `transform` callback of the
+     * generation it came from. When merging (see `VCChainReaderParams.merge`), the values of every 
+     * generation are converted into values of the newest generation and merged before being 
+     * transformed with the `transform` callback of the newest generation.
+     *
+     * @param scope See the `scope` parameter of `VCReader.read`.
+     *
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained.
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the
+     *         highest priority scope is invalid.
+     */
+    public read(scope?: ConfigurationScope): E {
+        return this.readWithSource(scope).value;
+    }
+
+    /**
+     * Get the effective validated value between the configurations in the chain along with where
+     * it came from.
+     *
+     * The effective value is determined in the same way as `read`. The `source` of the result is
+     * the name of the `inspect` scope that the effective value was taken from, while `generation`
+     * is the index of the configuration that it came from (`0` being the newest).
+     *
+     * @param scope See the `scope` parameter of `VCReader.read`.
+     *
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained.
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the
+     *         highest priority scope is invalid.
+     */
+    public readWithSource(scope?: ConfigurationScope): VCChainReadResult<E> {
+        const [ newest, ...older ] = this.readers.map((reader, i) => ({
+            name:            reader.name,
+            inspectDetailed: (scope?: ConfigurationScope) => reader.inspectDetailed(scope),
+            transform:       this.generations[i].transform,
+            convert:         this.generations[i].deprConvert
+        }));
+        return readGenerations<Ts[0], E>(
+            [ { ...newest, inspectDetailed: (scope) => this.inspectDetailed(0, scope) }, ...older ],
+            this.args.resolution ?? { mode: 'fallback' },
+            scope,
+            this.args.merge
+        );
+    }
+
+    /**
+     * Get the validated values of one of the configurations in the chain.
+     *
+     * See `VCReader.inspect` for more info.
+     *
+     * @param generation Index of the configuration, where `0` is the newest.
+     * @param scope See the `scope` parameter of `VCReader.inspect`.
+     */
+    public inspect<G extends number>(generation: G, scope?: ConfigurationScope): Inspect<Ts[G]> {
+        return this.reader(generation).inspect(scope) as Inspect<Ts[G]>;
+    }
+
+    /**
+     * Get the outcomes of validating the values of one of the configurations in the chain.
+     *
+     * See `VCReader.inspectDetailed` for more info.
+     *
+     * @param generation Index of the configuration, where `0` is the newest.
+     * @param scope See the `scope` parameter of `VCReader.inspect`.
+     */
+    public inspectDetailed<G extends number>(generation: G, scope?: ConfigurationScope): InspectDetailed<Ts[G]> {
+        return this.reader(generation).inspectDetailed(scope) as InspectDetailed<Ts[G]>;
+    }
+
+    /**
+     * Subscribe to changes in the effective value between the configurations in the chain.
+     *
+     * See `VCReader.onDidChange` for more info.
+     */
+    public onDidChange(listener: (event: VCChangeEvent<E>) => void, scope?: ConfigurationScope): Disposable {
+        return watchEffectiveValue(this.names, (scope) => this.read(scope), listener, scope, this.args.source);
+    }
+
+    /**
+     * Release the resources held by this reader.
+     *
+     * See `VCReader.dispose` for more info.
+     */
+    public dispose(): void {
+        this.readers.forEach(reader => reader.dispose());
+        this.registrations.forEach(registration => registration.dispose());
+    }
+
+    /**
+     * Record this reader in a registry.
+     * 
+     * The registry knows of one deprecated configuration per reader, so the newest configuration is
+     * recorded once for each older configuration in the chain, which the registry reports as 
+     * deprecated in favor of the newest one.
+     */
+    private register(registry: VCReaderRegistry | undefined): Disposable[] {
+        if (!registry) {
+            return [];
+        }
+        const newest = {
+            name:            this.generations[0].name,
+            inspectDetailed: (scope?: ConfigurationScope) => this.readers[0].inspectDetailed(scope),
+            readWithSource:  (scope?: ConfigurationScope) => this.readWithSource(scope)
+        };
+        if (this.readers.length === 1) {
+            return [ registry.register(newest) ];
+        }
+        return this.readers.slice(1).map(reader => registry.register({
+            ...newest,
+            deprName:            reader.name,
+            deprInspectDetailed: (scope?: ConfigurationScope) => reader.inspectDetailed(scope)
+        }));
+    }
+
+    /**
+     * @throws `RangeError` if there is no generation at index `generation`.
+     */
+    private reader(generation: number): VCReader<unknown, E> {
+        const reader = this.readers[generation];
+        if (!reader) {
+            throw new RangeError(`There is no generation ${generation} in the chain of ${this.generations[0].name}.`);
+        }
+        return reader;
+    }
+
+}
+
+/**
+ * A configuration in a chain of configurations.
+ * 
+ * The type parameter `N` is the validated type of the newest configuration in the chain.
+ */
+export interface VCGeneration<T, E, N = unknown> extends Pick<VCReaderParams<T, E>, 'name' | 'validate' | 'transform' | 'declaredScope'> {
+
+    /**
+     * Callback used to convert values of this configuration into values of the newest configuration
+     * in the chain.
+     * 
+     * This is only required for the configurations other than the newest one when a `merge` 
+     * strategy other than `replace` is specified (see `VCDualReaderParams.deprConvert`).
+     */
+    readonly deprConvert?: (t: T) => N;
+
+}
+
+export interface VCChainReaderParams<Ts extends [unknown, ...unknown[]], E> {
+
+    /**
+     * The configurations in the chain, from the newest to the oldest.
+     *
+     * The second half of this type is only there so that the type of the effective value can be
+     * inferred from the `transform` callbacks.
+     */
+    readonly generations: { readonly [G in keyof Ts]: VCGeneration<Ts[G], E, Ts[0]> }
+        & readonly { 
+            readonly name:         string, 
+            readonly validate:     unknown, 
+            readonly transform:    (t: never) => E, 
+            readonly deprConvert?: (t: never) => unknown
+        }[];
+
+    /**
+     * See `VCReaderParams.cache`.
+     */
+    readonly cache?: boolean;
+
+    /**
+     * See `VCReaderParams.resolution`.
+     */
+    readonly resolution?: ResolutionPolicy<E>;
+
+    /**
+     * See `VCReaderParams.merge`. 
+     * 
+     * Strategies other than `replace` require a `deprConvert` callback for every generation but the 
+     * newest.
+     */
+    readonly merge?: MergeStrategy<Ts[0]>;
+
+    /**
+     * Registry to record this reader in (see `VCReaderParams.registry`). 
+     * 
+     * The values of every generation but the newest are reported by the registry's health check as
+     * deprecated.
+     */
+    readonly registry?: VCReaderRegistry;
+
+    /**
+     * See `VCReaderParams.source`.
+     */
+    readonly source?: VCConfigurationSource;
+
+}
+
+/**
+ * The effective value between a chain of configurations and where it came from.
+ */
+export interface VCChainReadResult<E> extends VCReadResult<E> {
+
+    /**
+     * Index of the configuration that the effective value came from, where `0` is the newest.
+     *
+     * This is `undefined` if the effective value is the one given by a `callerDefault` resolution
+     * policy.
+     */
+    readonly generation: number | undefined;
+
+}
@@ -1,6 +1,15 @@
-import { VCReader, VCReaderParams } from './vc-reader';
-import { ConfigurationScope } from 'vscode';
-import { Inspect } from './inspect';
+import { VCReader, VCReaderParams, VCReadResult } from './vc-reader';
+import { ConfigurationScope, Disposable, Uri } from 'vscode';
+import { Inspect, InspectDetailed, InspectKey, inspectKeysByPriority } from './inspect';
+import { readGenerations } from './resolution';
+import { check, Validator } from './validation';
+import { enumerateLocations, VCMigrationEntry, VCMigrationOptions, VCMigrationReport } from './migration';
+import { VCChangeEvent, watchEffectiveValue } from './change-event';
+import { VCDeprecationEvent } from './deprecation';
+import { inspectKeyTarget } from './update';
+import { VCDeclaredScope } from './declared-scope';
+import { DeprConvertMissingError } from './errors';
+import { readForLanguages, toConfigurationScope, VCScopeTarget } from './scope';
 
 
 /**
@@ -10,7 +19,7 @@ import { Inspect } from './inspect';
  * want to read the deprecated configuration as well. See also the base `VCReader` class for why we
  * prefer to read configuration values through this class instead of just using the raw vscode API.
  */
-export class VCDualReader<T, D, E> {
+export class VCDualReader<T, D, E> implements Disposable {
 
     /** 
      * Full name of the new configuration. 
@@ -36,19 +45,34 @@ export class VCDualReader<T, D, E> {
      */
     private readonly deprReader: VCReader<D, E>;
 
+    /**
+     * Registration of this reader in the `registry` specified in the constructor, if any.
+     */
+    private readonly registration: Disposable | undefined;
+
     /**
      * Register a validating reader that simultaneously reads values from a new and a deprecated 
      * configuration.
      * 
      * @throws `ConfigurationNameEmptyError` if either `name` or `deprName` is empty.
+     * @throws `DeprConvertMissingError` if a `merge` strategy other than `replace` is specified 
+     *         without a `deprConvert` callback.
      */
     public constructor(private readonly args: VCDualReaderParams<T, D, E>) {
-        this.newReader  = new VCReader(args);
-        this.deprReader = new VCReader({
-            name:      args.deprName,
-            validate:  args.deprValidate,
-            transform: args.deprTransform
+        if (args.merge && args.merge.mode !== 'replace' && !args.deprConvert) {
+            throw new DeprConvertMissingError(args.deprName);
+        }
+        this.newReader    = new VCReader({ ...args, registry: undefined });
+        this.deprReader   = new VCReader({
+            name:          args.deprName,
+            validate:      args.deprValidate,
+            transform:     args.deprTransform,
+            cache:         args.cache,
+            elementwise:   args.elementwise,
+            declaredScope: args.deprDeclaredScope ?? args.declaredScope,
+            source:        args.source
         });
+        this.registration = args.registry?.register(this);
     }
 
     /** 
@@ -76,6 +100,9 @@ export class VCDualReader<T, D, E> {
      * 
      * and finding the last value in the list (i.e. first from the bottom) that is not `undefined`.
      * 
+     * How values that fail validation are treated depends on the `resolution` policy specified in 
+     * the constructor of this class. By default they are skipped.
+     * 
      * Before it is returned, the effective value is transformed with either the `transform` or
      * `deprTransform` callback specified in the constructor of this class, depending on whether the
      * effective value comes from the new or deprecated configuration. 
@@ -93,51 +120,112 @@ export class VCDualReader<T, D, E> {
      *              a multi-root workspace. However, the exact way the default scope is determined 
      *              is not really made clear by vscode's API.
      * 
-     * @throws `Error` if an effective value cannot be obtained. 
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained. 
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the 
+     *         highest priority scope is invalid.
      */
     public read(scope?: ConfigurationScope): E {
-        const newInspect    = this.newReader.inspect(scope);
-        const deprInspect   = this.deprReader.inspect(scope);
-        const newTransform  = this.args.transform;
-        const deprTransform = this.args.deprTransform;
-        let effectiveValue: E;
-        if (newInspect.workspaceFolderLanguageValue !== undefined) {
-            effectiveValue = newTransform(newInspect.workspaceFolderLanguageValue);
-        } else if (deprInspect.workspaceFolderLanguageValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.workspaceFolderLanguageValue);
-        } else if (newInspect.workspaceLanguageValue !== undefined) {
-            effectiveValue = newTransform(newInspect.workspaceLanguageValue);
-        } else if (deprInspect.workspaceLanguageValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.workspaceLanguageValue);
-        } else if (newInspect.globalLanguageValue !== undefined) {
-            effectiveValue = newTransform(newInspect.globalLanguageValue);
-        } else if (deprInspect.globalLanguageValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.globalLanguageValue);
-        } else if (newInspect.defaultLanguageValue !== undefined) {
-            effectiveValue = newTransform(newInspect.defaultLanguageValue);
-        } else if (deprInspect.defaultLanguageValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.defaultLanguageValue);
-        } else if (newInspect.workspaceFolderValue !== undefined) {
-            effectiveValue = newTransform(newInspect.workspaceFolderValue);
-        } else if (deprInspect.workspaceFolderValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.workspaceFolderValue);
-        } else if (newInspect.workspaceValue !== undefined) {
-            effectiveValue = newTransform(newInspect.workspaceValue);
-        } else if (deprInspect.workspaceValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.workspaceValue);
-        } else if (newInspect.globalValue !== undefined) {
-            effectiveValue = newTransform(newInspect.globalValue);
-        } else if (deprInspect.globalValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.globalValue);
-        } else if (newInspect.defaultValue !== undefined) {
-            effectiveValue = newTransform(newInspect.defaultValue);
-        } else if (deprInspect.defaultValue !== undefined) {
-            effectiveValue = deprTransform(deprInspect.defaultValue);
-        } else {
-            throw new Error(`No effective value between ${this.args.name} and ${this.args.deprName}.`);
-        }
+        return this.readWithSource(scope).value;
+    }
+
+    /**
+     * Get the effective validated value between the new and deprecated configurations for a 
+     * document or language.
+     * 
+     * Language specific values only apply when reading from a scope that has a language. This 
+     * builds such a scope from `target` (see `toConfigurationScope`), then reads from it as with 
+     * `read`.
+     * 
+     * @throws The same errors as `read`.
+     */
+    public readFor(target: VCScopeTarget): E {
+        return this.read(toConfigurationScope(target));
+    }
 
-        return effectiveValue;
+    /**
+     * Get the effective validated value between the new and deprecated configurations for each of 
+     * a list of languages.
+     * 
+     * @param uri Resource whose workspace folder to read from. If not specified, the values are read
+     *            as if from outside of any workspace folder.
+     * 
+     * @return A map from each language to the effective value for it.
+     * 
+     * @throws The same errors as `read`, if reading for any of the languages fails.
+     */
+    public readForLanguages(languageIds: readonly string[], uri?: Uri): Map<string, E> {
+        return readForLanguages((scope) => this.read(scope), languageIds, uri);
+    }
+
+    /**
+     * Get the effective validated value between the new and deprecated configurations along with 
+     * where it came from.
+     * 
+     * The effective value is determined in the same way as `read`. The `source` of the result is 
+     * the name of the `inspect` scope that the effective value was taken from, while `deprecated` 
+     * is `true` if the effective value came from the deprecated configuration.
+     * 
+     * @param scope See the `scope` parameter of `read`.
+     * 
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained. 
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the 
+     *         highest priority scope is invalid.
+     */
+    public readWithSource(scope?: ConfigurationScope): VCDualReadResult<E> {
+        const { value, source, generation } = readGenerations(
+            [
+                {
+                    name:            this.args.name,
+                    inspectDetailed: (scope) => this.newReader.inspectDetailed(scope),
+                    transform:       this.args.transform
+                },
+                {
+                    name:            this.args.deprName,
+                    inspectDetailed: (scope) => this.deprReader.inspectDetailed(scope),
+                    transform:       this.args.deprTransform,
+                    convert:         this.args.deprConvert
+                }
+            ],
+            this.args.resolution ?? { mode: 'fallback' },
+            scope,
+            this.args.merge
+        );
+        this.fireDeprecationHooks(scope, generation === 1 && source !== 'callerDefault' ? source : undefined);
+        return { value, source, deprecated: generation === 1 };
+    }
+
+    /**
+     * Call the deprecation hooks specified in the constructor of this class.
+     * 
+     * @param used The scope of the effective value if it came from the deprecated configuration.
+     */
+    private fireDeprecationHooks(scope: ConfigurationScope | undefined, used: InspectKey | undefined): void {
+        const { onDeprecatedValuePresent, onDeprecatedValueUsed } = this.args;
+        if (!onDeprecatedValuePresent && !(onDeprecatedValueUsed && used)) {
+            return;
+        }
+        const detailed = this.deprReader.inspectDetailed(scope);
+        const event    = (source: InspectKey): VCDeprecationEvent => {
+            const detail = detailed[source];
+            return {
+                name:     this.args.name,
+                deprName: this.args.deprName,
+                scope,
+                source,
+                target:   inspectKeyTarget(source),
+                value:    detail.status === 'unset' ? undefined : detail.value
+            };
+        };
+        if (onDeprecatedValuePresent) {
+            for (const source of inspectKeysByPriority) {
+                if (inspectKeyTarget(source) !== undefined && detailed[source].status !== 'unset') {
+                    onDeprecatedValuePresent(event(source));
+                }
+            }
+        }
+        if (onDeprecatedValueUsed && used) {
+            onDeprecatedValueUsed(event(used));
+        }
     }
 
     /** 
@@ -206,6 +294,134 @@ export class VCDualReader<T, D, E> {
         return this.deprReader.inspect(scope);
     }
 
+    /**
+     * Get the outcomes of validating the values of the new configuration in each of the scopes 
+     * listed in `inspect`.
+     * 
+     * See `VCReader.inspectDetailed` for more info.
+     */
+    public inspectDetailed(scope?: ConfigurationScope): InspectDetailed<T> {
+        return this.newReader.inspectDetailed(scope);
+    }
+
+    /**
+     * Get the outcomes of validating the values of the deprecated configuration in each of the 
+     * scopes listed in `deprInspect`.
+     * 
+     * See `VCReader.inspectDetailed` for more info.
+     */
+    public deprInspectDetailed(scope?: ConfigurationScope): InspectDetailed<D> {
+        return this.deprReader.inspectDetailed(scope);
+    }
+
+    /**
+     * Convert a value of the deprecated configuration into a value of the new configuration with 
+     * the `deprConvert` callback specified in the constructor of this class.
+     * 
+     * @return The converted value, or `undefined` if there is no `deprConvert` callback, if `value` 
+     *         fails the `deprValidate` callback, or if the converted value fails the `validate` 
+     *         callback.
+     */
+    public convertDeprecated(value: unknown): T | undefined {
+        if (!this.args.deprConvert || !this.args.deprValidate(value)) {
+            return undefined;
+        }
+        const converted = this.args.deprConvert(value);
+        return this.args.validate(converted) ? converted : undefined;
+    }
+
+    /**
+     * Migrate values from the deprecated configuration to the new configuration.
+     * 
+     * Every scope where the deprecated configuration has a value is visited. This includes the 
+     * global, workspace and workspace folder settings as well as the language specific values in 
+     * each of them. The deprecated value in each scope is converted with the `deprConvert` callback
+     * specified in the constructor of this class and written to the same scope of the new 
+     * configuration. A scope is skipped if its deprecated value is invalid, if its converted value 
+     * is invalid, or if the new configuration already has a value in it.
+     * 
+     * By default, this is a dry run where nothing is written, so that callers can review the report 
+     * before asking for the migration to be done with `dryRun: false`.
+     * 
+     * @return A report of what was done (or would have been done, for a dry run) in each scope.
+     * 
+     * @throws `DeprConvertMissingError` if this reader was not given a `deprConvert` callback.
+     */
+    public async migrate(options: VCMigrationOptions = {}): Promise<VCMigrationReport> {
+        const convert = this.args.deprConvert;
+        if (!convert) {
+            throw new DeprConvertMissingError(this.args.deprName);
+        }
+        const dryRun  = options.dryRun ?? true;
+        const entries: VCMigrationEntry[] = [];
+        for (const { target, scope, workspaceFolder, languageId, key } of enumerateLocations(this.args.deprName, options.languageIds, this.args.source)) {
+            const deprDetail = this.deprReader.inspectDetailed(scope)[key];
+            if (deprDetail.status === 'unset') {
+                continue;
+            }
+            const base = { target, workspaceFolder, languageId, deprValue: deprDetail.value };
+            if (deprDetail.status === 'invalid') {
+                entries.push({ ...base, status: 'skipped', reason: `The deprecated value is invalid: ${deprDetail.reason}` });
+                continue;
+            }
+            if (deprDetail.status === 'disallowed') {
+                entries.push({ ...base, status: 'skipped', reason: `The deprecated value is ignored: ${deprDetail.reason}` });
+                continue;
+            }
+            if (this.newReader.inspectDetailed(scope)[key].status !== 'unset') {
+                entries.push({ ...base, status: 'skipped', reason: 'The new configuration already has a value here.' });
+                continue;
+            }
+            const newValue = convert(deprDetail.value);
+            const failure  = check(this.args.validate, newValue);
+            if (failure) {
+                entries.push({ ...base, status: 'skipped', reason: `The converted value is invalid: ${failure.reason}` });
+                continue;
+            }
+            if (!dryRun) {
+                const overrideInLanguage = languageId !== undefined;
+                await this.newReader.update(newValue, target, scope, overrideInLanguage);
+                if (options.clearDeprecated) {
+                    await this.deprReader.update(undefined, target, scope, overrideInLanguage);
+                }
+            }
+            entries.push({ ...base, status: 'migrated', newValue });
+        }
+        return { dryRun, entries };
+    }
+
+    /**
+     * Subscribe to changes in the effective value between the new and deprecated configurations.
+     * 
+     * The `listener` is called with the previous and new effective values whenever a change to
+     * either configuration causes the effective value (as yielded by `read`) to change.
+     * 
+     * @param scope If specified, only changes that affect this scope are considered, and the effective 
+     *              value is read from this scope. Otherwise the default scope is used (see `read`).
+     * 
+     * @return A disposable that unsubscribes the `listener` when disposed.
+     */
+    public onDidChange(listener: (event: VCChangeEvent<E>) => void, scope?: ConfigurationScope): Disposable {
+        return watchEffectiveValue(
+            [this.args.name, this.args.deprName], 
+            (scope) => this.read(scope), 
+            listener, 
+            scope,
+            this.args.source
+        );
+    }
+
+    /**
+     * Release the resources held by this reader.
+     * 
+     * See `VCReader.dispose` for more info.
+     */
+    public dispose(): void {
+        this.newReader.dispose();
+        this.deprReader.dispose();
+        this.registration?.dispose();
+    }
+
 } 
 
 export interface VCDualReaderParams<T, D, E> extends VCReaderParams<T, E> {
@@ -218,12 +434,66 @@ export interface VCDualReaderParams<T, D, E> extends VCReaderParams<T, E> {
     /**
      * Callback used to validate values of the deprecated configuration.
      */
-    readonly deprValidate: (d: unknown) => d is D;
+    readonly deprValidate: Validator<D>;
 
     /**
      * Callback used to transform the effective value if the effective value is from the deprecated 
      * configuration.
      */
     readonly deprTransform: (d: D) => E;
+
+    /**
+     * Callback used to convert values of the deprecated configuration into values of the new 
+     * configuration.
+     * 
+     * This is required when a `merge` strategy other than `replace` is specified, in which case the
+     * values of both configurations are converted into values of the new configuration, merged, then
+     * transformed with the `transform` callback. It is also what `migrate`, `convertDeprecated` and 
+     * the quick fixes of `VCCodeActionProvider` convert deprecated values with.
+     */
+    readonly deprConvert?: (d: D) => T;
+
+    /**
+     * The scope that the deprecated configuration is declared with in the package manifest.
+     * 
+     * See `VCReaderParams.declaredScope`. Defaults to `declaredScope`.
+     */
+    readonly deprDeclaredScope?: VCDeclaredScope;
+
+    /**
+     * Callback called when reading finds values in the deprecated configuration.
+     * 
+     * Each time the effective value is read (through `read` or `readWithSource`), this is called 
+     * once for every user defined scope (i.e. excluding the default values) where the deprecated 
+     * configuration has a value, whether or not that value is valid and whether or not it became the
+     * effective value.
+     * 
+     * Since this is called on every read, rate-limiting of any user facing notifications is left to
+     * the callback (see `VCDeprecationNotifier`).
+     */
+    readonly onDeprecatedValuePresent?: (event: VCDeprecationEvent) => void;
+
+    /**
+     * Callback called when the effective value read (through `read` or `readWithSource`) comes from 
+     * the deprecated configuration.
+     * 
+     * Like `onDeprecatedValuePresent`, this is called on every such read.
+     */
+    readonly onDeprecatedValueUsed?: (event: VCDeprecationEvent) => void;
     
 }
+
+/**
+ * The effective value between a new and deprecated configuration and where it came from.
+ */
+export interface VCDualReadResult<E> extends VCReadResult<E> {
+
+    /**
+     * Whether the effective value came from the deprecated configuration.
+     * 
+     * When merging, this is whether the highest priority value that was merged came from the 
+     * deprecated configuration.
+     */
+    readonly deprecated: boolean;
+
+}
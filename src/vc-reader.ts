@@ -1,5 +1,19 @@
-import { workspace, ConfigurationScope } from 'vscode';
-import { Inspect } from './inspect';
+import { ConfigurationScope, ConfigurationTarget, Disposable, Uri } from 'vscode';
+import { Inspect, InspectDetailed, InspectKey, toInspect } from './inspect';
+import { readGenerations, ResolutionPolicy, VCValueSource } from './resolution';
+import { MergeStrategy } from './merge';
+import { disallowedDetail, VCDeclaredScope } from './declared-scope';
+import { 
+    ConfigurationNameEmptyError, InspectUndefinedError, InvalidUpdateError, InverseTransformMissingError 
+} from './errors';
+import { check, describeValue, Validator } from './validation';
+import { writeAndObserve } from './update';
+import { VCChangeEvent, watchEffectiveValue } from './change-event';
+import { ScopeCache, VCCacheStats } from './cache';
+import { readForLanguages, toConfigurationScope, VCScopeTarget } from './scope';
+import { inspectMatrix, VCInspectMatrix } from './matrix';
+import { VCReaderRegistry } from './registry';
+import { defaultSource, VCConfigurationSource, VCInspectResult } from './source';
 
 /** 
  * Configuration reader that validates values before yielding them.
@@ -10,7 +24,7 @@ import { Inspect } from './inspect';
  * have the correct constraints etc. This class aims to make all of that easier by providing a 
  * simpler API to read configuration values.
  */
-export class VCReader<T, E> {
+export class VCReader<T, E> implements Disposable {
 
     /** 
      * Full name of the configuration. 
@@ -38,18 +52,47 @@ export class VCReader<T, E> {
      */
     private readonly child: string;
 
+    /**
+     * Cache of the validated values and the transformed effective value for each scope.
+     * 
+     * This is `undefined` if caching was not enabled in the constructor.
+     */
+    private readonly cache: ScopeCache<CacheEntry<T, E>> | undefined;
+
+    /**
+     * Where the configuration is read from.
+     */
+    private readonly source: VCConfigurationSource;
+
+    /**
+     * Registration of this reader in the `registry` specified in the constructor, if any.
+     */
+    private readonly registration: Disposable | undefined;
+
     /** 
      * Register a validating reader that reads configuration values.
      * 
-     * @throws `Error` if `name` is empty.
+     * @throws `ConfigurationNameEmptyError` if `name` is empty.
      */
     public constructor(private readonly args: VCReaderParams<T, E>) {
         if (args.name.trim().length === 0) {
-            throw new Error(`Name cannot be empty!`);
+            throw new ConfigurationNameEmptyError(args.name);
         }
         const { section, child } = splitName(args.name);
-        this.section = section;
-        this.child   = child;
+        this.section      = section;
+        this.child        = child;
+        this.source       = args.source ?? defaultSource();
+        this.cache        = args.cache ? new ScopeCache([args.name], this.source) : undefined;
+        this.registration = args.registry?.register(this);
+    }
+
+    /**
+     * Statistics of the cache of this reader.
+     * 
+     * This is `undefined` if caching was not enabled in the constructor.
+     */
+    public get cacheStats(): VCCacheStats | undefined {
+        return this.cache?.stats;
     }
 
     /** 
@@ -69,9 +112,15 @@ export class VCReader<T, E> {
      * 
      * and finding the last value in the list (i.e. first from the bottom) that is not `undefined`.
      * 
+     * How values that fail validation are treated depends on the `resolution` policy specified in 
+     * the constructor of this class. By default they are skipped.
+     * 
      * Before it is returned, the effective value is transformed with the `transform` callback 
      * specified in the constructor of this class. 
      * 
+     * If caching was enabled in the constructor, the transformed effective value is memoized per 
+     * scope until a configuration change affects this configuration in that scope.
+     * 
      * @param scope This parameter determines from which perspective the configuration is read from.
      *              For instance, in a multi-root workspace, providing a `scope` argument to a
      *              workspace X will cause this method to return configuration values relative to 
@@ -83,33 +132,78 @@ export class VCReader<T, E> {
      *              a multi-root workspace. However, the exact way the default scope is determined 
      *              is not really made clear by vscode's API.
      * 
-     * @throws `Error` if an effective value cannot be obtained. 
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained. 
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the 
+     *         highest priority scope is invalid.
      */
     public read(scope?: ConfigurationScope): E {
-        let effectiveValue: E;
-        const inspect   = this.inspect(scope);
-        const transform = this.args.transform;
-        if (inspect.workspaceFolderLanguageValue !== undefined) {
-            effectiveValue = transform(inspect.workspaceFolderLanguageValue);
-        } else if (inspect.workspaceLanguageValue !== undefined) {
-            effectiveValue = transform(inspect.workspaceLanguageValue);
-        } else if (inspect.globalLanguageValue !== undefined) {
-            effectiveValue = transform(inspect.globalLanguageValue);
-        } else if (inspect.defaultLanguageValue !== undefined) {
-            effectiveValue = transform(inspect.defaultLanguageValue);
-        } else if (inspect.workspaceFolderValue !== undefined) {
-            effectiveValue = transform(inspect.workspaceFolderValue);
-        } else if (inspect.workspaceValue !== undefined) {
-            effectiveValue = transform(inspect.workspaceValue);
-        } else if (inspect.globalValue !== undefined) {
-            effectiveValue = transform(inspect.globalValue);
-        } else if (inspect.defaultValue !== undefined) {
-            effectiveValue = transform(inspect.defaultValue);
-        } else {
-            throw new Error(`No effective value for ${this.name}.`);
+        return this.readWithSource(scope).value;
+    }
+
+    /**
+     * Get the effective validated value of the configuration for a document or language.
+     * 
+     * Language specific values only apply when reading from a scope that has a language. This 
+     * builds such a scope from `target` (see `toConfigurationScope`), then reads from it as with 
+     * `read`.
+     * 
+     * @throws The same errors as `read`.
+     */
+    public readFor(target: VCScopeTarget): E {
+        return this.read(toConfigurationScope(target));
+    }
+
+    /**
+     * Get the effective validated value of the configuration for each of a list of languages.
+     * 
+     * @param uri Resource whose workspace folder to read from. If not specified, the values are read
+     *            as if from outside of any workspace folder.
+     * 
+     * @return A map from each language to the effective value for it.
+     * 
+     * @throws The same errors as `read`, if reading for any of the languages fails.
+     */
+    public readForLanguages(languageIds: readonly string[], uri?: Uri): Map<string, E> {
+        return readForLanguages((scope) => this.read(scope), languageIds, uri);
+    }
+
+    /**
+     * Get the effective validated value of the configuration along with the scope it came from.
+     * 
+     * The effective value is determined in the same way as `read`. The `source` of the result is 
+     * the name of the `inspect` scope that the effective value was taken from. For instance, a 
+     * `source` of `workspaceFolderLanguageValue` means that the effective value comes from a 
+     * language specific value in the workspace folder's settings.
+     * 
+     * @param scope See the `scope` parameter of `read`.
+     * 
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained. 
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the 
+     *         highest priority scope is invalid.
+     */
+    public readWithSource(scope?: ConfigurationScope): VCReadResult<E> {
+        const entry = this.entry(scope);
+        if (!entry.effective) {
+            entry.effective = this.effectiveValue(entry.detailed, scope);
         }
+        return { ...entry.effective };
+    }
 
-        return effectiveValue;
+    /**
+     * Get the transformed effective value from the validated values of the configuration.
+     * 
+     * @throws `NoEffectiveValueError` if an effective value cannot be obtained. 
+     * @throws `InvalidValueError` if the `strict` resolution policy is used and the value in the 
+     *         highest priority scope is invalid.
+     */
+    private effectiveValue(detailed: InspectDetailed<T>, scope?: ConfigurationScope): VCReadResult<E> {
+        const { value, source } = readGenerations(
+            [ { name: this.name, inspectDetailed: () => detailed, transform: this.args.transform } ],
+            this.args.resolution ?? { mode: 'fallback' },
+            scope,
+            this.args.merge
+        );
+        return { value, source };
     }
 
     /** 
@@ -128,6 +222,9 @@ export class VCReader<T, E> {
      * the `validate` callback specified in the constructor of this class. Values which fail 
      * validation or are not defined are returned as `undefined`.
      * 
+     * If caching was enabled in the constructor, the validated values are memoized per scope until 
+     * a configuration change affects this configuration in that scope.
+     * 
      * [here]: https://code.visualstudio.com/api/references/vscode-api#WorkspaceConfiguration
      * 
      * @param scope This parameter determines from which perspective the configuration is read from.
@@ -142,25 +239,139 @@ export class VCReader<T, E> {
      *              is not really made clear by vscode's API.
      */
     public inspect(scope?: ConfigurationScope): Inspect<T> {
-        const inspect = workspace.getConfiguration(this.section, scope).inspect<unknown>(this.child);
+        return { ...this.entry(scope).inspect };
+    }
 
-        // I have yet to encounter circumstances that cause `inspect` to be `undefined`. But better
-        // to be safe and do this check.
-        if (!inspect) {
-            throw new Error(`Unexpected error: Inspecting ${this.name} yields 'undefined'.`);
-        }
+    /**
+     * Get how the configuration resolves in every workspace folder for each of a list of languages.
+     * 
+     * Each cell of the matrix has the validated values (see `inspect`) and the effective value (see
+     * `readWithSource`) from the scope of a workspace folder and a language. Cells whose effective 
+     * value cannot be obtained carry the error that reading it threw instead.
+     * 
+     * @param languageIds The languages to read for. Values are always also read without a language.
+     * 
+     * @throws Any error thrown by the `transform` callback.
+     */
+    public inspectMatrix(languageIds: readonly string[] = []): VCInspectMatrix<T, E> {
+        return inspectMatrix((scope) => this.inspect(scope), (scope) => this.readWithSource(scope), languageIds, this.source);
+    }
 
-        const validate = (value: unknown) => this.args.validate(value) ? value : undefined;
-        return {
-            defaultValue:                 validate(inspect.defaultValue),
-            globalValue:                  validate(inspect.globalValue),
-            workspaceValue:               validate(inspect.workspaceValue),
-            workspaceFolderValue:         validate(inspect.workspaceFolderValue),
-            defaultLanguageValue:         validate(inspect.defaultLanguageValue),
-            globalLanguageValue:          validate(inspect.globalLanguageValue),
-            workspaceLanguageValue:       validate(inspect.workspaceLanguageValue),
-            workspaceFolderLanguageValue: validate(inspect.workspaceFolderLanguageValue)
+    /**
+     * Get the outcomes of validating the values of the configuration in each of the scopes listed 
+     * in `inspect`.
+     * 
+     * Unlike `inspect`, which yields `undefined` for both values that are not defined and values 
+     * that fail validation, this method distinguishes between the two. For values that fail 
+     * validation, the reason and a JSON path to the offending part of the value are provided. The
+     * reason is obtained from the `explain` callback of the validator if it has one, otherwise a
+     * generic reason is given.
+     * 
+     * @param scope See the `scope` parameter of `inspect`.
+     */
+    public inspectDetailed(scope?: ConfigurationScope): InspectDetailed<T> {
+        return { ...this.entry(scope).detailed };
+    }
+
+    /**
+     * Get the validated values of a scope, which are cached if caching is enabled.
+     */
+    private entry(scope?: ConfigurationScope): CacheEntry<T, E> {
+        const compute = () => {
+            const detailed = this.inspectDetailedUncached(scope);
+            return { detailed, inspect: toInspect(detailed) };
         };
+        return this.cache ? this.cache.get(scope, compute) : compute();
+    }
+
+    private inspectDetailedUncached(scope?: ConfigurationScope): InspectDetailed<T> {
+        const inspect = this.source.getConfiguration(this.section, scope).inspect<unknown>(this.child);
+        return describeInspect(this.name, inspect, this.args, scope);
+    }
+
+    /**
+     * Write a value to the configuration after validating it.
+     * 
+     * This is a validating wrapper around vscode's `WorkspaceConfiguration.update` method. Unlike 
+     * that method, the returned promise only resolves once the written value is observable through
+     * `inspect`.
+     * 
+     * @param value The value to write. Writing `undefined` removes the value from the target, and is
+     *              always allowed.
+     * @param target Which settings to write to. Writing to `ConfigurationTarget.WorkspaceFolder` 
+     *               requires `scope` to be (or be within) a workspace folder.
+     * @param scope The scope to write from. See the `scope` parameter of `inspect`.
+     * @param overrideInLanguage Whether to write to the language specific value of the target. This 
+     *                           requires `scope` to have a language. Defaults to `false`.
+     * 
+     * @throws `InvalidUpdateError` if `value` fails validation, in which case nothing is written.
+     * @throws `UpdateNotObservedError` if the written value does not become observable in time.
+     */
+    public async update(
+        value:               T | undefined, 
+        target:              ConfigurationTarget, 
+        scope?:              ConfigurationScope, 
+        overrideInLanguage?: boolean
+    ): Promise<void> {
+        if (value !== undefined) {
+            const failure = check(this.args.validate, value);
+            if (failure) {
+                throw new InvalidUpdateError(this.name, value, failure.reason, failure.path);
+            }
+        }
+        await writeAndObserve(this.name, this.section, this.child, value, target, scope, overrideInLanguage ?? false, this.source);
+    }
+
+    /**
+     * Write an effective value to the configuration.
+     * 
+     * The effective value is converted with the `inverseTransform` callback specified in the 
+     * constructor of this class, then written with `update`.
+     * 
+     * @throws `InverseTransformMissingError` if no `inverseTransform` callback was specified.
+     * @throws `InvalidUpdateError` if the converted value fails validation, in which case nothing is
+     *         written.
+     * @throws `UpdateNotObservedError` if the written value does not become observable in time.
+     */
+    public async updateEffective(
+        value:               E, 
+        target:              ConfigurationTarget, 
+        scope?:              ConfigurationScope, 
+        overrideInLanguage?: boolean
+    ): Promise<void> {
+        if (!this.args.inverseTransform) {
+            throw new InverseTransformMissingError(this.name);
+        }
+        return this.update(this.args.inverseTransform(value), target, scope, overrideInLanguage);
+    }
+
+    /**
+     * Subscribe to changes in the effective value of the configuration.
+     * 
+     * The `listener` is called with the previous and new effective values (both transformed with 
+     * the `transform` callback) whenever a configuration change causes the effective value to 
+     * change. Configuration changes that do not change the effective value do not fire the event.
+     * 
+     * The effective value is `undefined` in the event when it cannot be obtained.
+     * 
+     * @param scope If specified, only changes that affect this scope are considered, and the effective 
+     *              value is read from this scope. Otherwise the default scope is used (see `read`).
+     * 
+     * @return A disposable that unsubscribes the `listener` when disposed.
+     */
+    public onDidChange(listener: (event: VCChangeEvent<E>) => void, scope?: ConfigurationScope): Disposable {
+        return watchEffectiveValue([this.name], (scope) => this.read(scope), listener, scope, this.source);
+    }
+
+    /**
+     * Release the resources held by this reader.
+     * 
+     * Only readers that have caching enabled hold resources, but it is harmless to call this on any
+     * reader. A disposed reader can still be used, but it no longer caches anything.
+     */
+    public dispose(): void {
+        this.cache?.dispose();
+        this.registration?.dispose();
     }
 
 }
@@ -174,16 +385,183 @@ export interface VCReaderParams<T, E>  {
     
     /** 
      * Callback used to validate values of the configuration.
+     * 
+     * This can be any type guard. See `Validator` for how to provide explanations for invalid 
+     * values.
      */
-    readonly validate: (t: unknown) => t is T;
+    readonly validate: Validator<T>;
     
     /**  
      * Callback used to transform the effective value.
      */
     readonly transform: (t: T) => E;
+
+    /**
+     * Callback used to convert an effective value back into a configuration value. 
+     * 
+     * This should be the inverse of `transform`. It is only required for `updateEffective`.
+     */
+    readonly inverseTransform?: (e: E) => T;
+
+    /**
+     * Whether to cache the validated values and the transformed effective value of each scope.
+     * 
+     * Enable this for configurations that are read frequently. The cache is invalidated whenever 
+     * a configuration change affects this configuration. Reads of the default scope (i.e. without
+     * a `scope`) are not cached, since vscode resolves that scope from the active text editor.
+     * Readers with caching enabled should be disposed when they are no longer needed.
+     * 
+     * Cached values are not copied when they are yielded, so every read of a scope yields the same
+     * arrays and objects until the cache entry is invalidated. Callers must not mutate the values 
+     * that they read (including those in the results of `inspect` and `inspectDetailed`), since 
+     * doing so changes what later reads yield.
+     * 
+     * Defaults to `false`.
+     */
+    readonly cache?: boolean;
+
+    /**
+     * Policy that determines how the effective value is resolved when some scopes have invalid
+     * values. See `ResolutionPolicy` for the available policies.
+     * 
+     * Defaults to `{ mode: 'fallback' }`, where invalid values are skipped.
+     */
+    readonly resolution?: ResolutionPolicy<E>;
+
+    /**
+     * Strategy that determines how the valid values in different scopes are combined into the 
+     * effective value. See `MergeStrategy` for the available strategies.
+     * 
+     * Values are combined in order of ascending priority before being transformed. When merging, 
+     * the `strict` resolution policy rejects an invalid value in any scope, while the 
+     * `packageDefault` policy causes only the default values to be merged if any scope has an 
+     * invalid value.
+     * 
+     * Defaults to `{ mode: 'replace' }`, where the value in the highest priority scope wins.
+     */
+    readonly merge?: MergeStrategy<T>;
+
+    /**
+     * Whether to validate array and object values element by element.
+     * 
+     * Normally, a value with a single invalid element is rejected as a whole. When this is `true`,
+     * the invalid elements of an array (or the invalid properties of an object) are dropped instead,
+     * and the valid remainder is kept. The dropped elements, along with why they are invalid, are
+     * reported in the `rejected` property of the outcomes yielded by `inspectDetailed`.
+     * 
+     * Each element is checked by validating an array (or object) containing only that element, so
+     * this works with any validator whose elements are validated independently of each other, such
+     * as those built with `isArrayOf` (without length constraints) or `isRecordOf`. The remainder 
+     * must still pass validation as a whole. Values written with `update` are always validated as a whole.
+     * 
+     * Defaults to `false`.
+     */
+    readonly elementwise?: boolean;
+
+    /**
+     * The scope that the configuration is declared with in the package manifest. 
+     * 
+     * If specified, values in scopes that the declared scope does not allow (such as workspace 
+     * values of a configuration declared with the `application` scope) are ignored, just like vscode
+     * would. The ignored values are reported by `inspectDetailed` with the `disallowed` status. See 
+     * `findDeclaredScope` for getting the declared scope from the package manifest.
+     * 
+     * Defaults to allowing values in every scope.
+     */
+    readonly declaredScope?: VCDeclaredScope;
+
+    /**
+     * Registry to record this reader in, so that its configuration is audited by the registry's
+     * health check (see `VCReaderRegistry`). The reader is removed from the registry when disposed.
+     */
+    readonly registry?: VCReaderRegistry;
+
+    /**
+     * Where to read the configuration from.
+     * 
+     * Specify a `VCMemoryConfiguration` to use this reader outside of vscode, such as in unit tests
+     * run with plain node.
+     * 
+     * Defaults to vscode's `workspace` namespace.
+     */
+    readonly source?: VCConfigurationSource;
     
 };
 
+/**
+ * The effective value of a configuration and where it came from.
+ */
+export interface VCReadResult<E> {
+
+    /**
+     * The transformed effective value.
+     */
+    readonly value: E;
+
+    /**
+     * The scope that the effective value was taken from, or `callerDefault` if the effective value 
+     * is the one given by a `callerDefault` resolution policy.
+     */
+    readonly source: VCValueSource;
+
+}
+
+/**
+ * An entry in the cache of a `VCReader`.
+ */
+interface CacheEntry<T, E> {
+
+    detailed: InspectDetailed<T>;
+
+    inspect: Inspect<T>;
+
+    /**
+     * The transformed effective value, which is only computed when first read.
+     */
+    effective?: VCReadResult<E>;
+
+}
+
+/**
+ * Validate the values yielded by vscode's `inspect` method for a configuration.
+ * 
+ * @param name Full name of the configuration.
+ * @param scope The scope that the configuration was inspected from.
+ * 
+ * @throws `InspectUndefinedError` if `inspect` is `undefined`.
+ * 
+ * @internal
+ */
+export function describeInspect<T>(
+    name:    string,
+    inspect: VCInspectResult<unknown> | undefined,
+    params:  Pick<VCReaderParams<T, unknown>, 'validate' | 'elementwise' | 'declaredScope'>,
+    scope:   ConfigurationScope | undefined
+): InspectDetailed<T> {
+
+    // I have yet to encounter circumstances that cause `inspect` to be `undefined`. But better
+    // to be safe and do this check.
+    if (!inspect) {
+        throw new InspectUndefinedError(name, scope);
+    }
+
+    // Values in scopes that the declared scope does not allow are not validated, since they are
+    // ignored anyway.
+    const describe = (key: InspectKey) => 
+        (params.declaredScope ? disallowedDetail(key, inspect[key], params.declaredScope) : undefined)
+            ?? describeValue(params.validate, inspect[key], params.elementwise);
+    return {
+        defaultValue:                 describe('defaultValue'),
+        globalValue:                  describe('globalValue'),
+        workspaceValue:               describe('workspaceValue'),
+        workspaceFolderValue:         describe('workspaceFolderValue'),
+        defaultLanguageValue:         describe('defaultLanguageValue'),
+        globalLanguageValue:          describe('globalLanguageValue'),
+        workspaceLanguageValue:       describe('workspaceLanguageValue'),
+        workspaceFolderLanguageValue: describe('workspaceFolderLanguageValue')
+    };
+}
+
 /**
  * Split a full configuration name into a [section name] and a child name. 
  * 